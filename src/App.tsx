@@ -1,277 +1,536 @@
-import { useState, useCallback, useRef } from 'react';
-import type { FlashState, AppState, DeviceInfo, DownloadProgress, FlashProgress } from './types';
+import { useState, useCallback, useRef, useEffect, useSyncExternalStore } from 'react';
+import type { DragEvent } from 'react';
+import type { AppState, FlashState, SlotTarget, CachedImage } from './types';
 import { AdbService } from './services/adb';
 import { FastbootService } from './services/fastboot';
 import { GitHubService } from './services/github';
+import { CacheService } from './services/cache';
 import { downloadAsset } from './services/download';
-import { parseVersion, isOnePlusOpen, formatFileSize } from './utils/version';
-
-const initialState: AppState = {
-  state: 'IDLE',
-  deviceInfo: null,
-  matchedRelease: null,
-  imageBlob: null,
-  downloadProgress: null,
-  flashProgress: null,
-  error: null,
-  logs: [],
-};
+import {
+  SimulatedDevice,
+  SimulatedAdbService,
+  SimulatedFastbootService,
+  SIMULATION_SCENARIOS,
+  loadSimulationScenario,
+} from './services/simulated';
+import { FlashOrchestrator } from './flow/orchestrator';
+import type { FlashEvent } from './flow/orchestrator';
+import { CRITICAL_STATES } from './flow/transitions';
+import DownloadSourcesPanel from './components/DownloadSourcesPanel';
+import ReleaseBrowser from './components/ReleaseBrowser';
+import GitHubSettingsPanel from './components/GitHubSettingsPanel';
+import SimulationPanel from './components/SimulationPanel';
+import LogPanel from './components/LogPanel';
+import FastbootDiagnosticsPanel from './components/FastbootDiagnosticsPanel';
+import { formatFileSize, formatAge } from './utils/version';
 
 function App() {
-  const [appState, setAppState] = useState<AppState>(initialState);
-  const adbService = useRef(new AdbService());
-  const fastbootService = useRef(new FastbootService());
-  const githubService = useRef(new GitHubService());
-
-  const addLog = useCallback((message: string) => {
-    setAppState(prev => ({
-      ...prev,
-      logs: [...prev.logs, `[${new Date().toLocaleTimeString()}] ${message}`],
-    }));
-  }, []);
-
-  const setState = useCallback((state: FlashState, extra: Partial<AppState> = {}) => {
-    setAppState(prev => ({ ...prev, state, ...extra }));
-  }, []);
-
-  const setError = useCallback(
-    (error: string) => {
-      addLog(`Error: ${error}`);
-      setState('ERROR', { error });
+  const [services] = useState(() => {
+    const simulation = loadSimulationScenario();
+    const simulatedDevice = simulation ? new SimulatedDevice(simulation) : null;
+    const cache = CacheService.isSupported() ? new CacheService() : null;
+    const github = new GitHubService(cache);
+    const orchestrator = new FlashOrchestrator({
+      isUsbSupported: simulatedDevice ? () => true : AdbService.isSupported,
+      createAdb: () =>
+        simulatedDevice ? new SimulatedAdbService(simulatedDevice) : new AdbService(),
+      createFastboot: () =>
+        simulatedDevice ? new SimulatedFastbootService(simulatedDevice) : new FastbootService(),
+      releases: github,
+      imageStore: cache,
+      download: downloadAsset,
+    });
+    return { simulation, cache, github, orchestrator };
+  });
+  const { simulation, cache, github, orchestrator } = services;
+  const appState = useSyncExternalStore(orchestrator.subscribe, orchestrator.getState);
+  const [cachedImages, setCachedImages] = useState<CachedImage[]>([]);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const magiskInput = useRef<HTMLInputElement>(null);
+  const magiskAppInput = useRef<HTMLInputElement>(null);
+  const [dragActive, setDragActive] = useState(false);
+
+  // Rate limit headers are refreshed by every GitHub request the flow makes
+  const rateLimit = github.getRateLimit();
+
+  const send = useCallback(
+    (event: FlashEvent) => {
+      void orchestrator.send(event);
     },
-    [addLog, setState],
+    [orchestrator],
   );
 
-  // Check browser support
-  const checkBrowser = useCallback(() => {
-    if (!AdbService.isSupported()) {
-      addLog('WebUSB is not supported in this browser');
-      setState('BROWSER_UNSUPPORTED');
-      return false;
-    }
-    addLog('WebUSB is supported');
-    return true;
-  }, [addLog, setState]);
-
-  // Detect firmware version
-  const detectFirmware = useCallback(async () => {
-    setState('DETECTING_FIRMWARE');
-    addLog('Reading device information...');
-
+  const refreshCachedImages = useCallback(async () => {
+    if (!cache) return;
     try {
-      const deviceInfo = await adbService.current.getDeviceInfo();
-      addLog(`Device: ${deviceInfo.model}`);
-      addLog(`Firmware: ${deviceInfo.firmwareVersion}`);
-
-      // Validate device
-      const parsed = parseVersion(deviceInfo.firmwareVersion);
-      if (!parsed || !isOnePlusOpen(parsed.modelCode)) {
-        setError('This tool only supports OnePlus Open (CPH2551)');
-        return null;
-      }
-
-      setState('FIRMWARE_DETECTED', { deviceInfo });
-      return deviceInfo;
-    } catch (err) {
-      const message = err instanceof Error ? err.message : 'Unknown error';
-      setError(`Failed to read device info: ${message}`);
-      return null;
+      setCachedImages(await cache.listImages());
+    } catch {
+      setCachedImages([]);
     }
-  }, [addLog, setState, setError]);
-
-  // Find matching GitHub release
-  const findRelease = useCallback(
-    async (deviceInfo: DeviceInfo) => {
-      setState('FETCHING_RELEASES');
-      addLog('Fetching available releases...');
-
+  }, [cache]);
+
+  // Downloads land in the cache as the flow moves on, so re-list on every step
+  useEffect(() => {
+    let lastState: FlashState | null = null;
+    const onChange = ({ state }: AppState) => {
+      if (state === lastState) return;
+      lastState = state;
+      void refreshCachedImages();
+    };
+    onChange(orchestrator.getState());
+    return orchestrator.subscribe(onChange);
+  }, [orchestrator, refreshCachedImages]);
+
+  // Ask before the tab is closed and keep the screen on while a partition write
+  // is under way or may be incomplete
+  const critical = CRITICAL_STATES.includes(appState.state);
+  useEffect(() => {
+    if (!critical) return;
+
+    const onBeforeUnload = (event: BeforeUnloadEvent) => event.preventDefault();
+    window.addEventListener('beforeunload', onBeforeUnload);
+
+    // The browser drops the wake lock whenever the tab is hidden, so take it again on return
+    let wakeLock: WakeLockSentinel | null = null;
+    let done = false;
+    const acquireWakeLock = async () => {
+      if (!('wakeLock' in navigator) || document.visibilityState !== 'visible') return;
       try {
-        const release = await githubService.current.findMatchingRelease(deviceInfo.firmwareVersion);
-
-        if (!release) {
-          addLog(`No release found for firmware ${deviceInfo.firmwareVersion}`);
-          setState('RELEASE_NOT_FOUND');
-          return;
+        const lock = await navigator.wakeLock.request('screen');
+        if (done) {
+          void lock.release();
+        } else {
+          wakeLock = lock;
         }
-
-        const asset = githubService.current.getPatchedImageAsset(release);
-        if (!asset) {
-          setError('Release found but no patched image available');
-          return;
-        }
-
-        addLog(`Found matching release: ${release.tag_name}`);
-        addLog(`Patched image: ${asset.name} (${formatFileSize(asset.size)})`);
-        setState('RELEASE_MATCHED', { matchedRelease: release });
-      } catch (err) {
-        const message = err instanceof Error ? err.message : 'Unknown error';
-        setError(`Failed to fetch releases: ${message}`);
+      } catch {
+        // Refused, e.g. in power saving mode: flashing works without it
       }
+    };
+    const onVisibilityChange = () => void acquireWakeLock();
+    onVisibilityChange();
+    document.addEventListener('visibilitychange', onVisibilityChange);
+
+    return () => {
+      done = true;
+      window.removeEventListener('beforeunload', onBeforeUnload);
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+      void wakeLock?.release();
+    };
+  }, [critical]);
+
+  const evictCachedImage = useCallback(
+    async (image: CachedImage) => {
+      await cache?.deleteImage(image.key).catch(() => undefined);
+      await refreshCachedImages();
     },
-    [addLog, setState, setError],
+    [cache, refreshCachedImages],
   );
 
-  // Connect to device via ADB
-  const connectAdb = useCallback(async () => {
-    if (!checkBrowser()) return;
+  const checksFailed = appState.deviceChecks.some(check => check.status === 'fail');
 
-    setState('ADB_CONNECTING');
-    addLog('Connecting to device via ADB...');
+  const renderSlotSelector = () => {
+    const activeSlot = appState.deviceInfo?.activeSlot;
+    if (!activeSlot) return null;
 
-    try {
-      await adbService.current.connect();
-      addLog('ADB connection established');
-      setState('ADB_CONNECTED');
-
-      // Automatically proceed to firmware detection
-      const deviceInfo = await detectFirmware();
-      if (deviceInfo) {
-        await findRelease(deviceInfo);
-      }
-    } catch (err) {
-      const message = err instanceof Error ? err.message : 'Unknown error';
-      if (message.includes('No device selected')) {
-        setState('WAITING_ADB_CONNECT');
-        addLog('Device selection cancelled');
-      } else {
-        setError(`ADB connection failed: ${message}`);
-      }
-    }
-  }, [checkBrowser, addLog, setState, setError, detectFirmware, findRelease]);
-
-  // Download the patched image
-  const downloadImage = useCallback(async () => {
-    const release = appState.matchedRelease;
-    if (!release) return;
+    const inactiveSlot = activeSlot === 'a' ? 'b' : 'a';
+    const options: { target: SlotTarget; label: string }[] = [
+      { target: 'active', label: `Active (${activeSlot})` },
+      { target: 'inactive', label: `Inactive (${inactiveSlot})` },
+      { target: 'both', label: 'Both' },
+    ];
 
-    const asset = githubService.current.getPatchedImageAsset(release);
-    if (!asset) return;
+    return (
+      <div className="mb-6 text-left">
+        <h3 className="font-semibold mb-2 text-sm text-gray-400">Target slot</h3>
+        <div className="flex gap-2">
+          {options.map(({ target, label }) => (
+            <button
+              key={target}
+              onClick={() => send({ type: 'SELECT_SLOT_TARGET', target })}
+              className={`flex-1 py-2 px-3 rounded-lg text-sm transition-colors ${
+                appState.slotTarget === target
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        {appState.slotTarget === 'inactive' && (
+          <p className="text-yellow-400 text-sm mt-2">
+            The inactive slot is only used after the next OTA or a manual slot switch.
+          </p>
+        )}
+      </div>
+    );
+  };
 
-    setState('DOWNLOADING_IMAGE', {
-      downloadProgress: { loaded: 0, total: asset.size, percentage: 0 },
-    });
-    addLog('Downloading patched image...');
+  const renderMismatchWarning = () => (
+    <div className="bg-red-900/30 border border-red-700 rounded-lg p-4 mb-4 text-left">
+      <h3 className="font-semibold text-red-400 mb-2">Firmware Mismatch</h3>
+      <p className="text-gray-400 text-sm">
+        Release <span className="font-mono">{appState.matchedRelease?.tag_name}</span> was not built
+        for your firmware (<span className="font-mono">{appState.deviceInfo?.firmwareVersion}</span>
+        ). The device may fail to boot after flashing.
+      </p>
+    </div>
+  );
 
-    try {
-      const blob = await downloadAsset(asset.browser_download_url, (progress: DownloadProgress) => {
-        setAppState(prev => ({ ...prev, downloadProgress: progress }));
-      });
-
-      addLog(`Download complete: ${formatFileSize(blob.size)}`);
-      setState('DOWNLOAD_COMPLETE', { imageBlob: blob, downloadProgress: null });
-    } catch (err) {
-      const message = err instanceof Error ? err.message : 'Unknown error';
-      setError(`Download failed: ${message}`);
-    }
-  }, [appState.matchedRelease, addLog, setState, setError]);
+  const renderNearbyReleases = () => {
+    const nearby = appState.nearbyReleases;
+    if (nearby.length === 0) return null;
+
+    const closestNewer = nearby.find(n => n.direction === 'newer');
+
+    return (
+      <div className="bg-gray-900 rounded-lg p-4 mb-6 text-left">
+        <h3 className="font-semibold mb-2">Closest Releases</h3>
+        <p className="text-gray-400 text-sm mb-3">
+          {closestNewer ? (
+            <>
+              Update your phone to{' '}
+              <span className="font-mono">{closestNewer.release.tag_name}</span> to get a patched
+              image.
+            </>
+          ) : (
+            'A patched image for your build has not been published yet. Check back after the next release.'
+          )}
+        </p>
+        <ul className="space-y-2">
+          {nearby.map(({ release, direction, majorUpdate }) => (
+            <li key={release.tag_name} className="flex items-center justify-between text-sm">
+              <span className="font-mono text-gray-300">{release.tag_name}</span>
+              <span
+                className={`text-xs px-2 py-0.5 rounded ${
+                  direction === 'newer'
+                    ? 'bg-blue-900/50 text-blue-300'
+                    : 'bg-gray-700 text-gray-400'
+                }`}
+              >
+                {direction === 'newer' ? 'Newer' : 'Older'}
+                {majorUpdate && ' (major OS update)'}
+              </span>
+            </li>
+          ))}
+        </ul>
+        <p className="text-gray-500 text-xs mt-3">
+          These images do not match your firmware. You can still pick one under All Releases after
+          explicitly acknowledging the risk: an image built for another firmware can leave the
+          device unable to boot.
+        </p>
+      </div>
+    );
+  };
 
-  // Confirm and start flash
-  const confirmFlash = useCallback(() => {
-    setState('CONFIRMING_FLASH');
-  }, [setState]);
+  // Zips are official OTA packages to extract the stock image from; anything else is an image
+  const loadFile = (file: File) =>
+    send(
+      file.name.toLowerCase().endsWith('.zip')
+        ? { type: 'LOAD_OTA_PACKAGE', file }
+        : { type: 'LOAD_LOCAL_IMAGE', file },
+    );
+
+  const handleDrop = (e: DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setDragActive(false);
+    const file = e.dataTransfer.files[0];
+    if (file) loadFile(file);
+  };
 
-  // Reboot to bootloader
-  const rebootToBootloader = useCallback(async () => {
-    setState('REBOOTING_BOOTLOADER');
-    addLog('Rebooting to bootloader...');
+  const renderLocalImagePicker = () => (
+    <div
+      onDragOver={e => {
+        e.preventDefault();
+        setDragActive(true);
+      }}
+      onDragLeave={() => setDragActive(false)}
+      onDrop={handleDrop}
+      className={`border-2 border-dashed rounded-lg p-4 mb-6 transition-colors ${
+        dragActive ? 'border-blue-500 bg-blue-900/20' : 'border-gray-600'
+      }`}
+    >
+      <p className="text-gray-400 text-sm mb-2">
+        Have your own {appState.deviceProfile?.partition ?? 'init_boot'} image, or the official full
+        OTA zip for your build? Drop it here or
+      </p>
+      <input
+        ref={fileInput}
+        type="file"
+        accept=".img,.zip"
+        className="hidden"
+        onChange={e => {
+          const file = e.target.files?.[0];
+          if (file) loadFile(file);
+          e.target.value = '';
+        }}
+      />
+      <button
+        onClick={() => fileInput.current?.click()}
+        className="bg-gray-600 hover:bg-gray-700 text-white font-semibold py-2 px-6 rounded-lg transition-colors"
+      >
+        Use My Own File
+      </button>
+    </div>
+  );
 
-    try {
-      await adbService.current.rebootToBootloader();
-      await adbService.current.disconnect();
-      addLog('Device is rebooting to bootloader');
-      addLog('Please wait for the device to enter fastboot mode...');
-      setState('WAITING_FASTBOOT');
-    } catch (err) {
-      const message = err instanceof Error ? err.message : 'Unknown error';
-      setError(`Failed to reboot: ${message}`);
-    }
-  }, [addLog, setState, setError]);
+  // Patch the stock image on the device when no pre-patched image is at hand
+  const renderPatchOnDevice = () => (
+    <div className="mt-4">
+      <input
+        ref={magiskInput}
+        type="file"
+        accept=".apk"
+        className="hidden"
+        onChange={e => {
+          const file = e.target.files?.[0];
+          if (file) send({ type: 'PATCH_ON_DEVICE', magiskApk: file });
+          e.target.value = '';
+        }}
+      />
+      <button
+        onClick={() => send({ type: 'PATCH_ON_DEVICE' })}
+        className="bg-purple-600 hover:bg-purple-700 text-white font-semibold py-2 px-6 rounded-lg transition-colors"
+      >
+        Patch on Device
+      </button>
+      <p className="text-gray-500 text-sm mt-2">
+        Patches the stock image with the latest Magisk over ADB, or{' '}
+        <button
+          onClick={() => magiskInput.current?.click()}
+          className="text-gray-400 hover:text-gray-200 underline"
+        >
+          use your own Magisk APK
+        </button>
+      </p>
+    </div>
+  );
 
-  // Reboot to system
-  const rebootSystem = useCallback(async () => {
-    setState('REBOOTING_SYSTEM');
-    addLog('Rebooting to system...');
+  // Back out of a step that can be abandoned safely; with a reason, explain why it cannot
+  const renderCancel = (disabledReason?: string) => (
+    <div className="mt-6">
+      <button
+        onClick={() => send({ type: 'CANCEL' })}
+        disabled={disabledReason !== undefined}
+        className="bg-gray-600 hover:bg-gray-700 disabled:bg-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed text-white font-semibold py-2 px-6 rounded-lg transition-colors"
+      >
+        Cancel
+      </button>
+      {disabledReason && <p className="text-gray-500 text-sm mt-2">{disabledReason}</p>}
+    </div>
+  );
 
-    try {
-      await fastbootService.current.reboot();
-      addLog('Device is rebooting');
-      setState('SUCCESS');
-    } catch {
-      // Reboot command might not return properly, treat as success
-      addLog('Reboot command sent');
-      setState('SUCCESS');
+  // Offer to install the Magisk app over ADB, or report how the last attempt went
+  const renderMagiskApp = () => {
+    const install = appState.magiskAppInstall;
+    if (install?.status === 'installed' || install?.status === 'up-to-date') {
+      return (
+        <p className="text-green-400 mb-6">
+          {install.status === 'installed'
+            ? 'The Magisk app is installed'
+            : 'The Magisk app is already installed and up to date'}
+          {install.versionCode !== null && ` (${install.versionCode})`}. Open it on your device to
+          complete the setup.
+        </p>
+      );
     }
-  }, [addLog, setState]);
 
-  // Flash the image
-  const flashImage = useCallback(async () => {
-    if (!appState.imageBlob) return;
+    return (
+      <div className="mb-6">
+        <input
+          ref={magiskAppInput}
+          type="file"
+          accept=".apk"
+          className="hidden"
+          onChange={e => {
+            const file = e.target.files?.[0];
+            if (file) send({ type: 'INSTALL_MAGISK_APP', apk: file });
+            e.target.value = '';
+          }}
+        />
+        {install?.status === 'failed' && (
+          <p className="text-red-400 mb-4">Installing the Magisk app failed: {install.error}</p>
+        )}
+        <button
+          onClick={() => send({ type: 'INSTALL_MAGISK_APP' })}
+          className="bg-purple-600 hover:bg-purple-700 text-white font-semibold py-2 px-6 rounded-lg transition-colors"
+        >
+          {install?.status === 'failed' ? 'Retry Installing Magisk App' : 'Install Magisk App'}
+        </button>
+        <p className="text-gray-500 text-sm mt-2">
+          Installs the matching Magisk app over ADB, or{' '}
+          <button
+            onClick={() => magiskAppInput.current?.click()}
+            className="text-gray-400 hover:text-gray-200 underline"
+          >
+            use your own APK
+          </button>
+        </p>
+      </div>
+    );
+  };
 
-    setState('FLASHING', {
-      flashProgress: { action: 'preparing', partition: 'init_boot', progress: 0 },
-    });
-    addLog('Flashing init_boot partition...');
+  const renderChecksum = () => {
+    const checksum = appState.imageChecksum;
+    if (!checksum) return null;
 
-    try {
-      await fastbootService.current.flashInitBoot(appState.imageBlob, (progress: FlashProgress) => {
-        setAppState(prev => ({ ...prev, flashProgress: progress }));
-      });
-
-      addLog('Flash complete!');
-      setState('FLASH_COMPLETE', { flashProgress: null });
-
-      // Automatically reboot
-      await rebootSystem();
-    } catch (err) {
-      const message = err instanceof Error ? err.message : 'Unknown error';
-      setError(`Flash failed: ${message}`);
+    if (appState.imageSource === 'local') {
+      return (
+        <div className="bg-yellow-900/30 border border-yellow-700 rounded-lg p-4 mb-4 text-left">
+          <h3 className="font-semibold text-yellow-400 mb-2">Unverified Source</h3>
+          <p className="text-gray-400 text-sm mb-1">
+            {appState.imageName} is a local file and cannot be checked against a published checksum.
+          </p>
+          <p className="text-gray-400 font-mono text-xs break-all">SHA-256: {checksum.sha256}</p>
+        </div>
+      );
     }
-  }, [appState.imageBlob, addLog, setState, setError, rebootSystem]);
 
-  // Connect to device in fastboot mode
-  const connectFastboot = useCallback(async () => {
-    setState('FASTBOOT_CONNECTING');
-    addLog('Connecting to device in fastboot mode...');
+    if (appState.imageSource === 'ota') {
+      return (
+        <div className="bg-gray-800 rounded-lg p-4 mb-4 text-left">
+          <h3 className="font-semibold text-blue-400 mb-2">Extracted from OTA</h3>
+          <p className="text-gray-400 text-sm mb-1">
+            {appState.imageName} was extracted from the official OTA package for your build.
+          </p>
+          <p className="text-gray-400 font-mono text-xs break-all">SHA-256: {checksum.sha256}</p>
+        </div>
+      );
+    }
 
-    try {
-      await fastbootService.current.connect();
+    if (appState.imageSource === 'patched') {
+      return (
+        <div className="bg-gray-800 rounded-lg p-4 mb-4 text-left">
+          <h3 className="font-semibold text-purple-400 mb-2">Patched on Device</h3>
+          <p className="text-gray-400 text-sm mb-1">
+            {appState.imageName} was patched by Magisk on your device from the stock image.
+          </p>
+          <p className="text-gray-400 font-mono text-xs break-all">SHA-256: {checksum.sha256}</p>
+        </div>
+      );
+    }
 
-      if (!fastbootService.current.isConnected()) {
-        throw new Error('Failed to establish fastboot connection');
-      }
+    return checksum.verified ? (
+      <div className="bg-green-900/30 border border-green-700 rounded-lg p-4 mb-4 text-left">
+        <h3 className="font-semibold text-green-400 mb-2">Checksum Verified</h3>
+        <p className="text-gray-400 font-mono text-xs break-all">SHA-256: {checksum.sha256}</p>
+      </div>
+    ) : (
+      <div className="bg-yellow-900/30 border border-yellow-700 rounded-lg p-4 mb-4 text-left">
+        <h3 className="font-semibold text-yellow-400 mb-2">Checksum Not Published</h3>
+        <p className="text-gray-400 text-sm mb-1">
+          This release has no checksum for the image, so its integrity could not be verified.
+        </p>
+        <p className="text-gray-400 font-mono text-xs break-all">SHA-256: {checksum.sha256}</p>
+      </div>
+    );
+  };
 
-      // Check if bootloader is unlocked
-      const unlocked = await fastbootService.current.isBootloaderUnlocked();
-      if (!unlocked) {
-        setError('Bootloader is locked. Please unlock it first before flashing.');
-        return;
-      }
+  const renderBootImageInfo = () => {
+    const info = appState.bootImageInfo;
+    if (!info) return null;
+
+    const kind =
+      info.magiskPatched === null ? 'Unknown' : info.magiskPatched ? 'Magisk-patched' : 'Stock';
+
+    return (
+      <div className="bg-gray-900 rounded-lg p-4 mb-4 text-left">
+        <h3 className="font-semibold mb-2">Image: {kind}</h3>
+        <p className="text-gray-400 text-sm">Header version: v{info.headerVersion}</p>
+        {info.osVersion && <p className="text-gray-400 text-sm">OS version: {info.osVersion}</p>}
+        {info.osPatchLevel && (
+          <p className="text-gray-400 text-sm">Security patch: {info.osPatchLevel}</p>
+        )}
+      </div>
+    );
+  };
 
-      addLog('Fastboot connection established');
-      addLog('Bootloader is unlocked');
-      setState('FASTBOOT_CONNECTED');
-
-      // Automatically start flashing
-      await flashImage();
-    } catch (err) {
-      const message = err instanceof Error ? err.message : 'Unknown error';
-      if (message.includes('No device selected') || message.includes('cancelled')) {
-        setState('WAITING_FASTBOOT');
-        addLog('Device selection cancelled');
-      } else {
-        setError(`Fastboot connection failed: ${message}`);
-      }
+  const renderDeviceChecks = () => {
+    const checks = appState.deviceChecks;
+    if (checks.length === 0) return null;
+
+    const icons = { pass: '\u2713', warn: '!', fail: '\u2717' };
+    const colors = { pass: 'text-green-400', warn: 'text-yellow-400', fail: 'text-red-400' };
+
+    return (
+      <div className="bg-gray-900 rounded-lg p-4 mb-4 text-left">
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="font-semibold">Pre-flight Checks</h3>
+          <button
+            onClick={() => send({ type: 'RUN_DEVICE_CHECKS' })}
+            className="text-gray-400 hover:text-white text-xs transition-colors"
+          >
+            Re-run
+          </button>
+        </div>
+        <ul className="space-y-1 text-sm">
+          {checks.map(check => (
+            <li key={check.id} className="flex gap-2">
+              <span className={`w-4 ${colors[check.status]}`}>{icons[check.status]}</span>
+              <span>
+                <span className="text-gray-300">{check.label}</span>
+                <span className="block text-gray-500 text-xs">{check.detail}</span>
+              </span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    );
+  };
+
+  // Render UI based on state
+  const renderVerificationFailure = () => {
+    const verification = appState.bootVerification;
+    const partition = appState.deviceProfile?.partition ?? 'init_boot';
+    const restore = appState.flashMode === 'restore';
+
+    let title: string;
+    let detail: string;
+    switch (verification?.outcome) {
+      case 'did-not-boot':
+        title = 'Device Did Not Boot';
+        detail = `The device did not come back over ADB. If it is stuck on the boot logo or in a boot loop, hold power and volume down to enter fastboot mode and restore the stock ${partition} image.`;
+        break;
+      case 'firmware-changed':
+        title = 'Firmware Changed';
+        detail = `The device now reports ${verification.firmwareVersion} instead of ${appState.deviceInfo?.firmwareVersion}. It may have booted the other slot or installed an update. Check the firmware version and flash again if needed.`;
+        break;
+      case 'rooted':
+        title = 'Still Rooted';
+        detail = `The device booted but Magisk is still running. The other slot may still hold a patched ${partition} image. Try restoring again and target both slots.`;
+        break;
+      default:
+        title = 'Booted But Not Rooted';
+        detail = restore
+          ? 'The device booted but its root state could not be confirmed.'
+          : `The device booted but Magisk is not running. It may have booted the other slot, or the ${partition} image was not patched. Try flashing again and target both slots.`;
     }
-  }, [addLog, setState, setError, flashImage]);
 
-  // Reset to initial state
-  const reset = useCallback(() => {
-    adbService.current = new AdbService();
-    fastbootService.current = new FastbootService();
-    setAppState(initialState);
-  }, []);
+    return (
+      <div className="text-center">
+        <div className="text-yellow-500 text-6xl mb-4">!</div>
+        <h2 className="text-2xl font-semibold mb-4">{title}</h2>
+        <p className="text-gray-400 mb-6">{detail}</p>
+        {verification?.magisk && (
+          <div className="bg-gray-900 rounded-lg p-4 mb-6 text-left text-sm">
+            <p className="text-gray-400">
+              Magisk daemon: {verification.magisk.daemonRunning ? 'running' : 'not running'}
+            </p>
+            <p className="text-gray-400">
+              su binary: {verification.magisk.suAvailable ? 'available' : 'not found'}
+            </p>
+          </div>
+        )}
+        <button
+          onClick={() => send({ type: 'RESET' })}
+          className="bg-gray-600 hover:bg-gray-700 text-white font-semibold py-3 px-6 rounded-lg transition-colors"
+        >
+          Start Over
+        </button>
+      </div>
+    );
+  };
 
-  // Render UI based on state
   const renderContent = () => {
     switch (appState.state) {
       case 'IDLE':
@@ -283,7 +542,7 @@ function App() {
               Make sure USB debugging is enabled and the device is connected via USB.
             </p>
             <button
-              onClick={connectAdb}
+              onClick={() => send({ type: 'CONNECT_ADB' })}
               className="bg-blue-600 hover:bg-blue-700 text-white font-semibold py-3 px-8 rounded-lg transition-colors"
             >
               Connect Device
@@ -311,6 +570,7 @@ function App() {
             <p className="text-gray-500 text-sm mt-2">
               Accept the USB debugging prompt on your device if shown.
             </p>
+            {renderCancel()}
           </div>
         );
 
@@ -330,8 +590,13 @@ function App() {
             {appState.deviceInfo && (
               <div className="bg-gray-800 rounded-lg p-4 mb-4 text-left">
                 <h3 className="font-semibold mb-2">Device Information</h3>
-                <p className="text-gray-400">Model: {appState.deviceInfo.model}</p>
+                <p className="text-gray-400">
+                  Model: {appState.deviceProfile?.name ?? appState.deviceInfo.model}
+                </p>
                 <p className="text-gray-400">Firmware: {appState.deviceInfo.firmwareVersion}</p>
+                {appState.deviceInfo.activeSlot && (
+                  <p className="text-gray-400">Active slot: {appState.deviceInfo.activeSlot}</p>
+                )}
               </div>
             )}
             <div className="animate-spin w-12 h-12 border-4 border-blue-500 border-t-transparent rounded-full mx-auto mb-4"></div>
@@ -346,6 +611,9 @@ function App() {
               <div className="bg-gray-800 rounded-lg p-4 mb-4 text-left">
                 <h3 className="font-semibold mb-2">Device Information</h3>
                 <p className="text-gray-400">Firmware: {appState.deviceInfo.firmwareVersion}</p>
+                {appState.deviceInfo.activeSlot && (
+                  <p className="text-gray-400">Active slot: {appState.deviceInfo.activeSlot}</p>
+                )}
               </div>
             )}
             <div className="text-yellow-500 text-5xl mb-4">!</div>
@@ -353,45 +621,99 @@ function App() {
             <p className="text-gray-400 mb-6">
               No patched image is available for your firmware version yet.
             </p>
-            <button
-              onClick={reset}
-              className="bg-gray-600 hover:bg-gray-700 text-white font-semibold py-2 px-6 rounded-lg transition-colors"
-            >
-              Start Over
-            </button>
+            {renderNearbyReleases()}
+            {renderLocalImagePicker()}
+            <div className="flex gap-4 justify-center">
+              <button
+                onClick={() => send({ type: 'BROWSE_RELEASES' })}
+                className="bg-gray-700 hover:bg-gray-600 text-white font-semibold py-2 px-6 rounded-lg transition-colors"
+              >
+                Browse All Releases
+              </button>
+              <button
+                onClick={() => send({ type: 'RESET' })}
+                className="bg-gray-600 hover:bg-gray-700 text-white font-semibold py-2 px-6 rounded-lg transition-colors"
+              >
+                Start Over
+              </button>
+            </div>
           </div>
         );
 
-      case 'RELEASE_MATCHED':
+      case 'RELEASE_MATCHED': {
+        const release = appState.matchedRelease;
+        const profile = appState.deviceProfile;
+        const patchedAsset =
+          release && profile ? github.getPatchedImageAsset(release, profile) : null;
+        const stockAsset = release && profile ? github.getStockImageAsset(release, profile) : null;
         return (
           <div className="text-center">
             {appState.deviceInfo && (
               <div className="bg-gray-800 rounded-lg p-4 mb-4 text-left">
                 <h3 className="font-semibold mb-2">Device Information</h3>
-                <p className="text-gray-400">Model: {appState.deviceInfo.model}</p>
+                <p className="text-gray-400">
+                  Model: {appState.deviceProfile?.name ?? appState.deviceInfo.model}
+                </p>
                 <p className="text-gray-400">Firmware: {appState.deviceInfo.firmwareVersion}</p>
+                {appState.deviceInfo.activeSlot && (
+                  <p className="text-gray-400">Active slot: {appState.deviceInfo.activeSlot}</p>
+                )}
               </div>
             )}
-            {appState.matchedRelease && (
+            {appState.releaseMismatch && renderMismatchWarning()}
+            {appState.matchedRelease && !appState.releaseMismatch && (
               <div className="bg-green-900/30 border border-green-700 rounded-lg p-4 mb-6 text-left">
                 <h3 className="font-semibold text-green-400 mb-2">Release Found</h3>
                 <p className="text-gray-400">Version: {appState.matchedRelease.tag_name}</p>
-                <p className="text-gray-400">
-                  Size:{' '}
-                  {formatFileSize(
-                    githubService.current.getPatchedImageAsset(appState.matchedRelease)?.size || 0,
-                  )}
-                </p>
+                {patchedAsset && (
+                  <p className="text-gray-400">
+                    Patched image: {formatFileSize(patchedAsset.size)}
+                  </p>
+                )}
+                {stockAsset && (
+                  <p className="text-gray-400">Stock image: {formatFileSize(stockAsset.size)}</p>
+                )}
               </div>
             )}
+            <div className="flex gap-4 justify-center">
+              {patchedAsset && (
+                <button
+                  onClick={() => send({ type: 'DOWNLOAD_IMAGE', mode: 'patch' })}
+                  className="bg-blue-600 hover:bg-blue-700 text-white font-semibold py-3 px-8 rounded-lg transition-colors"
+                >
+                  Download Patched Image
+                </button>
+              )}
+              {stockAsset && (
+                <button
+                  onClick={() => send({ type: 'DOWNLOAD_IMAGE', mode: 'restore' })}
+                  className="bg-gray-600 hover:bg-gray-700 text-white font-semibold py-3 px-6 rounded-lg transition-colors"
+                >
+                  Restore Stock
+                </button>
+              )}
+            </div>
+            {stockAsset && renderPatchOnDevice()}
             <button
-              onClick={downloadImage}
-              className="bg-blue-600 hover:bg-blue-700 text-white font-semibold py-3 px-8 rounded-lg transition-colors"
+              onClick={() => send({ type: 'BROWSE_RELEASES' })}
+              className="text-gray-400 hover:text-gray-200 text-sm mt-4"
             >
-              Download Patched Image
+              Browse all releases
             </button>
+            <div className="mt-6">{renderLocalImagePicker()}</div>
           </div>
         );
+      }
+
+      case 'BROWSING_RELEASES':
+        return (
+          <ReleaseBrowser
+            releases={appState.releaseCatalogue}
+            firmwareVersion={appState.deviceInfo?.firmwareVersion ?? ''}
+            onSelect={release => send({ type: 'SELECT_RELEASE', release })}
+            onCancel={() => send({ type: 'CLOSE_RELEASE_BROWSER' })}
+          />
+        );
 
       case 'DOWNLOADING_IMAGE':
         return (
@@ -410,8 +732,14 @@ function App() {
                   {formatFileSize(appState.downloadProgress.total)} (
                   {appState.downloadProgress.percentage.toFixed(1)}%)
                 </p>
+                {appState.downloadProgress.source && (
+                  <p className="text-gray-500 text-sm mt-1">
+                    Source: {appState.downloadProgress.source}
+                  </p>
+                )}
               </>
             )}
+            {renderCancel()}
           </div>
         );
 
@@ -419,41 +747,108 @@ function App() {
         return (
           <div className="text-center">
             <div className="text-green-500 text-5xl mb-4">&#10003;</div>
-            <h2 className="text-xl font-semibold mb-4">Download Complete</h2>
+            <h2 className="text-xl font-semibold mb-4">
+              {appState.imageSource === 'local'
+                ? 'Image Loaded'
+                : appState.imageSource === 'patched'
+                  ? 'Image Patched'
+                  : appState.imageSource === 'ota'
+                    ? 'Image Extracted'
+                    : 'Download Complete'}
+            </h2>
+            {appState.imageSource === 'local' && (
+              <div className="bg-yellow-900/30 border border-yellow-700 rounded-lg p-4 mb-4 text-left">
+                <h3 className="font-semibold text-yellow-400 mb-2">Unverified Source</h3>
+                <p className="text-gray-400 text-sm">
+                  {appState.imageName} did not come from a published release. Make sure it was built
+                  for your exact firmware version.
+                </p>
+              </div>
+            )}
             <p className="text-gray-400 mb-6">
-              Ready to flash. This will reboot your device to bootloader mode.
+              {appState.imageSource === 'local'
+                ? 'The image will be validated before flashing. This will reboot your device to bootloader mode.'
+                : appState.flashMode === 'restore'
+                  ? 'Stock image ready. This will reboot your device to bootloader mode.'
+                  : 'Ready to flash. This will reboot your device to bootloader mode.'}
             </p>
             <button
-              onClick={confirmFlash}
+              onClick={() => send({ type: 'VERIFY_IMAGE' })}
               className="bg-orange-600 hover:bg-orange-700 text-white font-semibold py-3 px-8 rounded-lg transition-colors"
             >
               Continue to Flash
             </button>
+            {(appState.imageSource === 'local' || appState.flashMode === 'restore') &&
+              renderPatchOnDevice()}
+          </div>
+        );
+
+      case 'EXTRACTING_OTA':
+        return (
+          <div className="text-center">
+            <div className="animate-spin w-12 h-12 border-4 border-blue-500 border-t-transparent rounded-full mx-auto mb-4"></div>
+            <p className="text-gray-400">Extracting the stock image from the OTA package...</p>
+            {renderCancel()}
+          </div>
+        );
+
+      case 'PATCHING_ON_DEVICE':
+        return (
+          <div className="text-center">
+            <div className="animate-spin w-12 h-12 border-4 border-purple-500 border-t-transparent rounded-full mx-auto mb-4"></div>
+            <h2 className="text-xl font-semibold mb-2">Patching on Device</h2>
+            {appState.downloadProgress ? (
+              <p className="text-gray-400">
+                Downloading {formatFileSize(appState.downloadProgress.loaded)} /{' '}
+                {formatFileSize(appState.downloadProgress.total)}
+              </p>
+            ) : (
+              <p className="text-gray-400">
+                Magisk is patching the image on your device. Keep it connected and unlocked.
+              </p>
+            )}
+            {renderCancel()}
+          </div>
+        );
+
+      case 'VERIFYING_IMAGE':
+        return (
+          <div className="text-center">
+            <div className="animate-spin w-12 h-12 border-4 border-blue-500 border-t-transparent rounded-full mx-auto mb-4"></div>
+            <p className="text-gray-400">Verifying image...</p>
           </div>
         );
 
       case 'CONFIRMING_FLASH':
         return (
           <div className="text-center">
+            {appState.releaseMismatch && renderMismatchWarning()}
+            {renderChecksum()}
+            {renderBootImageInfo()}
+            {renderDeviceChecks()}
             <div className="bg-yellow-900/30 border border-yellow-700 rounded-lg p-4 mb-6 text-left">
               <h3 className="font-semibold text-yellow-400 mb-2">Warning</h3>
               <ul className="text-gray-400 text-sm list-disc list-inside space-y-1">
                 <li>Your bootloader must be unlocked</li>
-                <li>This will flash the init_boot partition</li>
+                <li>
+                  This will flash the {appState.deviceProfile?.partition ?? 'init_boot'} partition
+                </li>
                 <li>The device will reboot during this process</li>
-                <li>You will need to re-select the device in fastboot mode</li>
+                <li>You may need to re-select the device in fastboot mode</li>
               </ul>
             </div>
+            {renderSlotSelector()}
             <div className="flex gap-4 justify-center">
               <button
-                onClick={reset}
+                onClick={() => send({ type: 'RESET' })}
                 className="bg-gray-600 hover:bg-gray-700 text-white font-semibold py-3 px-6 rounded-lg transition-colors"
               >
                 Cancel
               </button>
               <button
-                onClick={rebootToBootloader}
-                className="bg-red-600 hover:bg-red-700 text-white font-semibold py-3 px-6 rounded-lg transition-colors"
+                onClick={() => send({ type: 'REBOOT_TO_BOOTLOADER' })}
+                disabled={checksFailed}
+                className="bg-red-600 hover:bg-red-700 disabled:opacity-50 text-white font-semibold py-3 px-6 rounded-lg transition-colors"
               >
                 Flash Now
               </button>
@@ -461,6 +856,46 @@ function App() {
           </div>
         );
 
+      case 'CONFIRMING_RESTORE':
+        return (
+          <div className="text-center">
+            {appState.releaseMismatch && renderMismatchWarning()}
+            {renderChecksum()}
+            {renderBootImageInfo()}
+            {renderDeviceChecks()}
+            <div className="bg-yellow-900/30 border border-yellow-700 rounded-lg p-4 mb-6 text-left">
+              <h3 className="font-semibold text-yellow-400 mb-2">
+                Restore Stock {appState.deviceProfile?.partition ?? 'init_boot'}
+              </h3>
+              <ul className="text-gray-400 text-sm list-disc list-inside space-y-1">
+                <li>
+                  This will flash the unmodified {appState.deviceProfile?.partition ?? 'init_boot'}{' '}
+                  image for your firmware
+                </li>
+                <li>Magisk root will be removed after the reboot</li>
+                <li>Magisk modules and the Magisk app are left untouched</li>
+                <li>You may need to re-select the device in fastboot mode</li>
+              </ul>
+            </div>
+            {renderSlotSelector()}
+            <div className="flex gap-4 justify-center">
+              <button
+                onClick={() => send({ type: 'RESET' })}
+                className="bg-gray-600 hover:bg-gray-700 text-white font-semibold py-3 px-6 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => send({ type: 'REBOOT_TO_BOOTLOADER' })}
+                disabled={checksFailed}
+                className="bg-red-600 hover:bg-red-700 disabled:opacity-50 text-white font-semibold py-3 px-6 rounded-lg transition-colors"
+              >
+                Restore Now
+              </button>
+            </div>
+          </div>
+        );
+
       case 'REBOOTING_BOOTLOADER':
         return (
           <div className="text-center">
@@ -473,15 +908,39 @@ function App() {
         return (
           <div className="text-center">
             <h2 className="text-xl font-semibold mb-4">Connect in Fastboot Mode</h2>
-            <p className="text-gray-400 mb-6">
-              Your device should now be in fastboot mode. Click the button below to connect.
-            </p>
+            {appState.fastbootWait === 'waiting' && (
+              <>
+                <div className="animate-spin w-12 h-12 border-4 border-orange-500 border-t-transparent rounded-full mx-auto mb-4"></div>
+                <p className="text-gray-400 mb-6">
+                  Waiting for your device to reappear in fastboot mode. It connects automatically if
+                  this browser has been allowed to access it in fastboot mode before.
+                </p>
+              </>
+            )}
+            {appState.fastbootWait === 'timed-out' && (
+              <div className="bg-yellow-900/30 border border-yellow-700 rounded-lg p-4 mb-6 text-left">
+                <h3 className="font-semibold text-yellow-400 mb-2">Device Not Detected</h3>
+                <ul className="text-gray-400 text-sm list-disc list-inside space-y-1">
+                  <li>Check that the screen shows the bootloader (fastboot) menu</li>
+                  <li>Unplug and reconnect the cable, avoiding USB hubs</li>
+                  <li>On Windows, install the Google USB driver for fastboot</li>
+                  <li>Close other tools that may hold the device, such as adb or fastboot</li>
+                  <li>Then click the button below and pick the device manually</li>
+                </ul>
+              </div>
+            )}
+            {!appState.fastbootWait && (
+              <p className="text-gray-400 mb-6">
+                Your device should now be in fastboot mode. Click the button below to connect.
+              </p>
+            )}
             <button
-              onClick={connectFastboot}
+              onClick={() => send({ type: 'CONNECT_FASTBOOT' })}
               className="bg-orange-600 hover:bg-orange-700 text-white font-semibold py-3 px-8 rounded-lg transition-colors"
             >
-              Connect Fastboot
+              {appState.fastbootWait === 'waiting' ? 'Connect Manually' : 'Connect Fastboot'}
             </button>
+            {renderCancel()}
           </div>
         );
 
@@ -490,6 +949,7 @@ function App() {
           <div className="text-center">
             <div className="animate-spin w-12 h-12 border-4 border-orange-500 border-t-transparent rounded-full mx-auto mb-4"></div>
             <p className="text-gray-400">Connecting in fastboot mode...</p>
+            {renderCancel()}
           </div>
         );
 
@@ -499,6 +959,9 @@ function App() {
           <div className="text-center">
             <div className="animate-pulse w-12 h-12 bg-orange-500 rounded-full mx-auto mb-4"></div>
             <h2 className="text-xl font-semibold mb-4">Flashing...</h2>
+            {appState.slotInfo?.currentSlot && (
+              <p className="text-gray-400 mb-2">Active slot: {appState.slotInfo.currentSlot}</p>
+            )}
             {appState.flashProgress && (
               <>
                 <div className="w-full bg-gray-700 rounded-full h-4 mb-2">
@@ -514,9 +977,80 @@ function App() {
               </>
             )}
             <p className="text-red-400 text-sm mt-4">Do not disconnect your device!</p>
+            {renderCancel(
+              'The partition is being written. Stopping now could leave the device unable to boot, so the flash cannot be cancelled.',
+            )}
           </div>
         );
 
+      case 'FLASH_INTERRUPTED': {
+        const release = appState.matchedRelease;
+        const profile = appState.deviceProfile;
+        const otherMode = appState.flashMode === 'restore' ? 'patch' : 'restore';
+        const otherAsset =
+          release && profile ? github.getImageAsset(release, profile, otherMode) : null;
+        const progress = appState.flashProgress;
+        const busy = appState.downloadProgress !== null;
+        return (
+          <div className="text-center">
+            <div className="text-red-500 text-5xl mb-4">&#9888;</div>
+            <h2 className="text-xl font-semibold mb-4">Flash Interrupted</h2>
+            <p className="text-red-400 mb-4">
+              The USB connection dropped while writing{' '}
+              {progress
+                ? `${progress.partition} (${(progress.progress * 100).toFixed(1)}%)`
+                : 'the partition'}
+              . The partition may be corrupt, and the device may not boot until it is flashed again.
+            </p>
+            {appState.error && (
+              <div className="bg-red-900/30 border border-red-700 rounded-lg p-4 mb-6 text-left">
+                <h3 className="font-semibold text-red-400 mb-2">Recovery Attempt Failed</h3>
+                <p className="text-gray-300 text-sm">{appState.error}</p>
+                {appState.failure?.remediation && (
+                  <p className="text-gray-400 text-sm mt-2">{appState.failure.remediation}</p>
+                )}
+              </div>
+            )}
+            <div className="bg-gray-900 rounded-lg p-4 mb-6 text-left">
+              <p className="font-semibold mb-1">What to do</p>
+              <ul className="text-gray-300 text-sm list-disc list-inside space-y-1">
+                <li>Do not restart the device: leave it on the bootloader (fastboot) screen</li>
+                <li>Reconnect the cable directly to the computer, avoiding USB hubs</li>
+                <li>Then flash again below; the device is picked up once it reappears</li>
+              </ul>
+            </div>
+            {appState.downloadProgress && (
+              <p className="text-gray-400 mb-4">
+                Downloading {formatFileSize(appState.downloadProgress.loaded)} /{' '}
+                {formatFileSize(appState.downloadProgress.total)}
+              </p>
+            )}
+            <div className="flex gap-4 justify-center">
+              <button
+                onClick={() => send({ type: 'RECOVER_FLASH', mode: appState.flashMode })}
+                disabled={busy}
+                className="bg-orange-600 hover:bg-orange-700 disabled:opacity-50 text-white font-semibold py-3 px-6 rounded-lg transition-colors"
+              >
+                {appState.flashMode === 'restore'
+                  ? 'Re-flash Stock Image'
+                  : 'Re-flash Patched Image'}
+              </button>
+              {otherAsset && (
+                <button
+                  onClick={() => send({ type: 'RECOVER_FLASH', mode: otherMode })}
+                  disabled={busy}
+                  className="bg-gray-600 hover:bg-gray-700 disabled:opacity-50 text-white font-semibold py-3 px-6 rounded-lg transition-colors"
+                >
+                  {otherMode === 'restore'
+                    ? 'Flash Stock Image Instead'
+                    : 'Flash Patched Image Instead'}
+                </button>
+              )}
+            </div>
+          </div>
+        );
+      }
+
       case 'FLASH_COMPLETE':
       case 'REBOOTING_SYSTEM':
         return (
@@ -526,15 +1060,43 @@ function App() {
           </div>
         );
 
+      case 'VERIFYING_BOOT':
+        return (
+          <div className="text-center">
+            <div className="animate-spin w-12 h-12 border-4 border-green-500 border-t-transparent rounded-full mx-auto mb-4"></div>
+            <h2 className="text-xl font-semibold mb-4">Verifying Boot</h2>
+            <p className="text-gray-400">
+              Keep the device connected. Once it has booted, the app reconnects over ADB to check
+              the firmware and whether Magisk is running. This can take a few minutes.
+            </p>
+          </div>
+        );
+
+      case 'VERIFICATION_FAILED':
+        return renderVerificationFailure();
+
       case 'SUCCESS':
         return (
           <div className="text-center">
             <div className="text-green-500 text-6xl mb-4">&#10003;</div>
             <h2 className="text-2xl font-semibold mb-4">Flash Complete!</h2>
-            <p className="text-gray-400 mb-6">
-              Your device has been flashed with Magisk. After it boots, install the Magisk app to
-              complete the setup.
-            </p>
+            {appState.bootVerification?.outcome === 'inactive-slot' ? (
+              <p className="text-gray-400 mb-6">
+                The patched image was written to the inactive slot. Your device booted its active
+                slot, which is unchanged, so root could not be verified. It takes effect after the
+                next OTA or a manual slot switch.
+              </p>
+            ) : (
+              <>
+                <p className="text-gray-400 mb-6">
+                  Your device booted with Magisk running
+                  {appState.bootVerification?.magisk?.version &&
+                    ` (${appState.bootVerification.magisk.version})`}
+                  .
+                </p>
+                {renderMagiskApp()}
+              </>
+            )}
             <div className="flex gap-4 justify-center">
               <a
                 href="https://github.com/topjohnwu/Magisk/releases"
@@ -545,7 +1107,7 @@ function App() {
                 Download Magisk App
               </a>
               <button
-                onClick={reset}
+                onClick={() => send({ type: 'RESET' })}
                 className="bg-gray-600 hover:bg-gray-700 text-white font-semibold py-3 px-6 rounded-lg transition-colors"
               >
                 Start Over
@@ -554,14 +1116,60 @@ function App() {
           </div>
         );
 
-      case 'ERROR':
+      case 'INSTALLING_MAGISK_APP': {
+        const install = appState.magiskAppInstall;
         return (
           <div className="text-center">
-            <div className="text-red-500 text-5xl mb-4">&#10007;</div>
-            <h2 className="text-xl font-semibold mb-4">Error</h2>
-            <p className="text-red-400 mb-6">{appState.error}</p>
+            <div className="animate-spin w-12 h-12 border-4 border-purple-500 border-t-transparent rounded-full mx-auto mb-4"></div>
+            <h2 className="text-xl font-semibold mb-4">Installing Magisk App</h2>
+            {install?.status === 'downloading' && appState.downloadProgress && (
+              <p className="text-gray-400">
+                Downloading {formatFileSize(appState.downloadProgress.loaded)} /{' '}
+                {formatFileSize(appState.downloadProgress.total)}
+              </p>
+            )}
+            {install?.status === 'pushing' && (
+              <>
+                <div className="w-full bg-gray-700 rounded-full h-4 mb-2">
+                  <div
+                    className="bg-purple-600 h-4 rounded-full transition-all duration-200"
+                    style={{ width: `${install.progress * 100}%` }}
+                  ></div>
+                </div>
+                <p className="text-gray-400">
+                  Copying to device ({(install.progress * 100).toFixed(1)}%)
+                </p>
+              </>
+            )}
+            {install?.status === 'installing' && (
+              <p className="text-gray-400">Waiting for the package manager...</p>
+            )}
+            {install?.status === 'downloading' && renderCancel()}
+          </div>
+        );
+      }
+
+      case 'RESTORE_SUCCESS':
+        return (
+          <div className="text-center">
+            <div className="text-green-500 text-6xl mb-4">&#10003;</div>
+            <h2 className="text-2xl font-semibold mb-4">Stock Image Restored</h2>
+            {appState.bootVerification?.outcome === 'inactive-slot' ? (
+              <p className="text-gray-400 mb-6">
+                The stock {appState.deviceProfile?.partition ?? 'init_boot'} image was written to
+                the inactive slot. Your device booted its active slot, which is unchanged, so the
+                restore could not be verified. It takes effect after the next OTA or a manual slot
+                switch.
+              </p>
+            ) : (
+              <p className="text-gray-400 mb-6">
+                Your device has been flashed with the stock{' '}
+                {appState.deviceProfile?.partition ?? 'init_boot'} image and booted without root.
+                You can now install OTA updates.
+              </p>
+            )}
             <button
-              onClick={reset}
+              onClick={() => send({ type: 'RESET' })}
               className="bg-gray-600 hover:bg-gray-700 text-white font-semibold py-3 px-6 rounded-lg transition-colors"
             >
               Start Over
@@ -569,6 +1177,37 @@ function App() {
           </div>
         );
 
+      case 'ERROR':
+        return (
+          <div className="text-center">
+            <div className="text-red-500 text-5xl mb-4">&#10007;</div>
+            <h2 className="text-xl font-semibold mb-4">Error</h2>
+            <p className="text-red-400 mb-4">{appState.error}</p>
+            {appState.failure?.remediation && (
+              <div className="bg-gray-900 rounded-lg p-4 mb-6 text-left">
+                <p className="font-semibold mb-1">What to do</p>
+                <p className="text-gray-300 text-sm">{appState.failure.remediation}</p>
+              </div>
+            )}
+            <div className="flex gap-4 justify-center">
+              {appState.failure?.retryable && (
+                <button
+                  onClick={() => send({ type: 'RETRY' })}
+                  className="bg-blue-600 hover:bg-blue-700 text-white font-semibold py-3 px-6 rounded-lg transition-colors"
+                >
+                  Retry This Step
+                </button>
+              )}
+              <button
+                onClick={() => send({ type: 'RESET' })}
+                className="bg-gray-600 hover:bg-gray-700 text-white font-semibold py-3 px-6 rounded-lg transition-colors"
+              >
+                Start Over
+              </button>
+            </div>
+          </div>
+        );
+
       default:
         return null;
     }
@@ -578,26 +1217,58 @@ function App() {
     <div className="min-h-screen bg-gray-900 text-white">
       <div className="container mx-auto px-4 py-8 max-w-2xl">
         <header className="text-center mb-8">
-          <h1 className="text-3xl font-bold mb-2">OnePlus Open Flasher</h1>
-          <p className="text-gray-400">Flash Magisk-patched init_boot.img via WebUSB</p>
+          <h1 className="text-3xl font-bold mb-2">OnePlus Kernel Flasher</h1>
+          <p className="text-gray-400">Flash Magisk-patched boot images via WebUSB</p>
+          {simulation && (
+            <p className="inline-block mt-3 bg-yellow-900/30 border border-yellow-700 text-yellow-400 rounded-lg px-3 py-1 text-sm">
+              Simulated device: {SIMULATION_SCENARIOS.find(s => s.id === simulation)?.label}
+            </p>
+          )}
         </header>
 
         <main className="bg-gray-800 rounded-xl p-6 mb-6">{renderContent()}</main>
 
-        <section className="bg-gray-800 rounded-xl p-4">
-          <h3 className="font-semibold mb-2 text-sm text-gray-400">Log</h3>
-          <div className="bg-gray-900 rounded-lg p-3 h-48 overflow-y-auto font-mono text-xs">
-            {appState.logs.length === 0 ? (
-              <p className="text-gray-600">Waiting for action...</p>
-            ) : (
-              appState.logs.map((log, i) => (
-                <div key={i} className="text-gray-400">
-                  {log}
-                </div>
-              ))
-            )}
-          </div>
-        </section>
+        {appState.fastbootDiagnostics && (
+          <FastbootDiagnosticsPanel
+            diagnostics={appState.fastbootDiagnostics}
+            findings={appState.preflightFindings}
+            partition={appState.deviceProfile?.partition ?? null}
+          />
+        )}
+
+        <DownloadSourcesPanel />
+        <GitHubSettingsPanel rateLimit={rateLimit} />
+        <SimulationPanel scenario={simulation} />
+
+        {cachedImages.length > 0 && (
+          <section className="bg-gray-800 rounded-xl p-4 mb-6">
+            <h3 className="font-semibold mb-2 text-sm text-gray-400">Cached Images</h3>
+            <ul className="space-y-2">
+              {cachedImages.map(image => (
+                <li
+                  key={image.key}
+                  className="flex items-center justify-between bg-gray-900 rounded-lg px-3 py-2 text-sm"
+                >
+                  <div className="text-left">
+                    <p className="text-gray-300">{image.tag}</p>
+                    <p className="text-gray-500 text-xs">
+                      {image.assetName} &middot; {formatFileSize(image.size)} &middot;{' '}
+                      {formatAge(image.cachedAt)}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => evictCachedImage(image)}
+                    className="text-gray-400 hover:text-red-400 text-xs transition-colors"
+                  >
+                    Remove
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        <LogPanel entries={appState.logs} />
 
         <footer className="text-center mt-8 text-gray-500 text-sm">
           <p>
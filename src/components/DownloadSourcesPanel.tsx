@@ -0,0 +1,116 @@
+import { useState } from 'react';
+import type { DownloadSource } from '../types';
+import {
+  DEFAULT_DOWNLOAD_SOURCES,
+  loadDownloadSources,
+  saveDownloadSources,
+} from '../services/download';
+
+/**
+ * Settings panel for the ordered list of download sources.
+ * Changes are persisted immediately and picked up by the next download.
+ */
+function DownloadSourcesPanel() {
+  const [sources, setSources] = useState<DownloadSource[]>(loadDownloadSources);
+  const [name, setName] = useState('');
+  const [urlTemplate, setUrlTemplate] = useState('');
+
+  const update = (next: DownloadSource[]) => {
+    setSources(next);
+    saveDownloadSources(next);
+  };
+
+  const move = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= sources.length) return;
+    const next = [...sources];
+    [next[index], next[target]] = [next[target], next[index]];
+    update(next);
+  };
+
+  const toggle = (index: number) => {
+    update(sources.map((s, i) => (i === index ? { ...s, enabled: !s.enabled } : s)));
+  };
+
+  const remove = (index: number) => {
+    update(sources.filter((_, i) => i !== index));
+  };
+
+  const templateValid = urlTemplate.startsWith('https://') && /\{(url|rawUrl)\}/.test(urlTemplate);
+
+  const add = () => {
+    if (!name.trim() || !templateValid) return;
+    update([...sources, { name: name.trim(), urlTemplate: urlTemplate.trim(), enabled: true }]);
+    setName('');
+    setUrlTemplate('');
+  };
+
+  return (
+    <details className="bg-gray-800 rounded-xl p-4 mb-6">
+      <summary className="font-semibold text-sm text-gray-400 cursor-pointer">
+        Download Sources
+      </summary>
+      <p className="text-gray-500 text-xs mt-2 mb-3">
+        Sources are tried in order. Use <code>{'{url}'}</code> for the encoded asset URL or{' '}
+        <code>{'{rawUrl}'}</code> for the URL as-is.
+      </p>
+      <ul className="space-y-2 mb-3">
+        {sources.map((source, i) => (
+          <li
+            key={`${source.name}-${i}`}
+            className="flex items-center gap-2 bg-gray-900 rounded-lg px-3 py-2 text-sm"
+          >
+            <input type="checkbox" checked={source.enabled} onChange={() => toggle(i)} />
+            <div className="flex-1 text-left min-w-0">
+              <p className={source.enabled ? 'text-gray-300' : 'text-gray-600'}>{source.name}</p>
+              <p className="text-gray-500 text-xs truncate">{source.urlTemplate}</p>
+            </div>
+            <button onClick={() => move(i, -1)} className="text-gray-400 hover:text-white px-1">
+              &uarr;
+            </button>
+            <button onClick={() => move(i, 1)} className="text-gray-400 hover:text-white px-1">
+              &darr;
+            </button>
+            {!source.builtin && (
+              <button
+                onClick={() => remove(i)}
+                className="text-gray-400 hover:text-red-400 text-xs transition-colors"
+              >
+                Remove
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+      <div className="flex gap-2 text-sm">
+        <input
+          value={name}
+          onChange={e => setName(e.target.value)}
+          placeholder="Name"
+          className="w-1/4 bg-gray-900 rounded-lg px-3 py-2 text-gray-300"
+        />
+        <input
+          value={urlTemplate}
+          onChange={e => setUrlTemplate(e.target.value)}
+          placeholder="https://mirror.example/{rawUrl}"
+          className="flex-1 bg-gray-900 rounded-lg px-3 py-2 text-gray-300"
+        />
+        <button
+          onClick={add}
+          disabled={!name.trim() || !templateValid}
+          className="bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white font-semibold px-4 rounded-lg transition-colors"
+        >
+          Add
+        </button>
+      </div>
+      <button
+        onClick={() => update(DEFAULT_DOWNLOAD_SOURCES)}
+        className="text-gray-500 hover:text-gray-300 text-xs mt-3"
+      >
+        Reset to defaults
+      </button>
+    </details>
+  );
+}
+
+export default DownloadSourcesPanel;
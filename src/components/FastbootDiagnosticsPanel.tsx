@@ -0,0 +1,109 @@
+import type { BootPartition, FastbootDiagnostics, PreflightFinding } from '../types';
+import { formatFileSize } from '../utils/version';
+
+interface FastbootDiagnosticsPanelProps {
+  diagnostics: FastbootDiagnostics;
+  findings: PreflightFinding[];
+  partition: BootPartition | null; // partition the flow writes, highlighted in the table
+}
+
+/**
+ * What the bootloader reported in `getvar all`, with anything that would
+ * block or endanger a flash highlighted
+ */
+function FastbootDiagnosticsPanel({
+  diagnostics,
+  findings,
+  partition,
+}: FastbootDiagnosticsPanelProps) {
+  const summary: { label: string; value: string; danger?: boolean; warn?: boolean }[] = [
+    { label: 'Product', value: diagnostics.product ?? 'unknown' },
+    { label: 'Secure', value: diagnostics.secure ?? 'unknown' },
+    {
+      label: 'Unlocked',
+      value: diagnostics.unlocked ?? 'unknown',
+      danger: diagnostics.unlocked !== 'yes',
+    },
+    { label: 'Current slot', value: diagnostics.currentSlot ?? 'none' },
+    { label: 'Slot count', value: String(diagnostics.slotCount) },
+    {
+      label: 'Max download size',
+      value:
+        diagnostics.maxDownloadSize === null
+          ? 'unknown'
+          : formatFileSize(diagnostics.maxDownloadSize),
+    },
+    {
+      label: 'Userspace fastboot',
+      value: diagnostics.isUserspace ? 'yes' : 'no',
+      warn: diagnostics.isUserspace,
+    },
+  ];
+
+  const isTarget = (name: string) =>
+    partition !== null && (name === partition || name.startsWith(`${partition}_`));
+
+  return (
+    <details className="bg-gray-800 rounded-xl p-4 mb-6" open={findings.length > 0}>
+      <summary className="font-semibold text-sm text-gray-400 cursor-pointer">
+        Fastboot Diagnostics
+      </summary>
+      {findings.length > 0 && (
+        <ul className="mt-3 space-y-1 text-sm">
+          {findings.map(finding => (
+            <li
+              key={finding.message}
+              className={finding.severity === 'blocker' ? 'text-red-400' : 'text-yellow-400'}
+            >
+              {finding.severity === 'blocker' ? 'Blocked: ' : 'Warning: '}
+              {finding.message}
+            </li>
+          ))}
+        </ul>
+      )}
+      <table className="w-full text-sm mt-3">
+        <tbody>
+          {summary.map(row => (
+            <tr key={row.label}>
+              <td className="text-gray-500 py-1 pr-4">{row.label}</td>
+              <td
+                className={`font-mono ${
+                  row.danger ? 'text-red-400' : row.warn ? 'text-yellow-400' : 'text-gray-300'
+                }`}
+              >
+                {row.value}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {diagnostics.partitions.length > 0 && (
+        <div className="max-h-48 overflow-y-auto mt-3">
+          <table className="w-full text-xs font-mono">
+            <thead>
+              <tr className="text-gray-500 text-left">
+                <th className="py-1 font-normal">Partition</th>
+                <th className="py-1 font-normal">Size</th>
+                <th className="py-1 font-normal">Type</th>
+              </tr>
+            </thead>
+            <tbody>
+              {diagnostics.partitions.map(p => (
+                <tr key={p.name} className={isTarget(p.name) ? 'text-blue-400' : 'text-gray-400'}>
+                  <td className="py-0.5">{p.name}</td>
+                  <td>{p.size === null ? '?' : formatFileSize(p.size)}</td>
+                  <td>
+                    {p.type ?? '?'}
+                    {p.logical && ' (logical)'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </details>
+  );
+}
+
+export default FastbootDiagnosticsPanel;
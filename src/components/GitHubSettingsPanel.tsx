@@ -0,0 +1,78 @@
+import { useState } from 'react';
+import type { RateLimitInfo } from '../types';
+import { loadGitHubToken, saveGitHubToken } from '../services/github';
+
+interface GitHubSettingsPanelProps {
+  rateLimit: RateLimitInfo | null;
+}
+
+/**
+ * Settings panel for the optional GitHub personal access token, which raises
+ * the API rate limit from 60 to 5000 requests per hour
+ */
+function GitHubSettingsPanel({ rateLimit }: GitHubSettingsPanelProps) {
+  const [savedToken, setSavedToken] = useState(loadGitHubToken);
+  const [token, setToken] = useState('');
+
+  const save = () => {
+    if (!token.trim()) return;
+    saveGitHubToken(token.trim());
+    setSavedToken(token.trim());
+    setToken('');
+  };
+
+  const clear = () => {
+    saveGitHubToken(null);
+    setSavedToken(null);
+  };
+
+  return (
+    <details className="bg-gray-800 rounded-xl p-4 mb-6">
+      <summary className="font-semibold text-sm text-gray-400 cursor-pointer">GitHub API</summary>
+      {rateLimit && (
+        <p
+          className={`text-xs mt-2 ${rateLimit.remaining === 0 ? 'text-red-400' : 'text-gray-500'}`}
+        >
+          {rateLimit.remaining} of {rateLimit.limit} requests left, resets at{' '}
+          {new Date(rateLimit.resetAt).toLocaleTimeString()}
+        </p>
+      )}
+      <p className="text-gray-500 text-xs mt-2 mb-3">
+        Unauthenticated requests are limited to 60 per hour per IP. A personal access token with no
+        scopes raises the limit. The token is stored in this browser only.
+      </p>
+      {savedToken ? (
+        <div className="flex items-center justify-between bg-gray-900 rounded-lg px-3 py-2 text-sm">
+          <span className="font-mono text-gray-300">
+            {savedToken.slice(0, 4)}&hellip;{savedToken.slice(-4)}
+          </span>
+          <button
+            onClick={clear}
+            className="text-gray-400 hover:text-red-400 text-xs transition-colors"
+          >
+            Remove
+          </button>
+        </div>
+      ) : (
+        <div className="flex gap-2 text-sm">
+          <input
+            type="password"
+            value={token}
+            onChange={e => setToken(e.target.value)}
+            placeholder="Personal access token (optional)"
+            className="flex-1 bg-gray-900 rounded-lg px-3 py-2 text-gray-300"
+          />
+          <button
+            onClick={save}
+            disabled={!token.trim()}
+            className="bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white font-semibold px-4 rounded-lg transition-colors"
+          >
+            Save
+          </button>
+        </div>
+      )}
+    </details>
+  );
+}
+
+export default GitHubSettingsPanel;
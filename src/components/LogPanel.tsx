@@ -0,0 +1,91 @@
+import { useState } from 'react';
+import type { LogEntry, LogLevel } from '../types';
+import { formatLogJson, formatLogLine, formatLogText, redactLogEntries } from '../utils/log';
+
+interface LogPanelProps {
+  entries: LogEntry[];
+}
+
+const LEVEL_STYLES: Record<LogLevel, string> = {
+  debug: 'text-gray-600',
+  info: 'text-gray-400',
+  warn: 'text-yellow-400',
+  error: 'text-red-400',
+};
+
+function download(content: string, filename: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Session log with export for bug reports. Device identifiers are
+ * redacted from exports unless the user opts out.
+ */
+function LogPanel({ entries }: LogPanelProps) {
+  const [redact, setRedact] = useState(true);
+  const [copied, setCopied] = useState(false);
+
+  const exported = () => (redact ? redactLogEntries(entries) : entries);
+  const filename = `oneplus-flasher-log-${new Date().toISOString().replace(/[:.]/g, '-')}`;
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(formatLogText(exported()));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      // Clipboard access denied: the export buttons still work
+    }
+  };
+
+  return (
+    <section className="bg-gray-800 rounded-xl p-4">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="font-semibold text-sm text-gray-400">Log</h3>
+        {entries.length > 0 && (
+          <div className="flex items-center gap-3 text-xs">
+            <label className="flex items-center gap-1 text-gray-500">
+              <input type="checkbox" checked={redact} onChange={e => setRedact(e.target.checked)} />
+              Redact identifiers
+            </label>
+            <button onClick={copy} className="text-gray-400 hover:text-white transition-colors">
+              {copied ? 'Copied' : 'Copy'}
+            </button>
+            <button
+              onClick={() => download(formatLogText(exported()), `${filename}.txt`, 'text/plain')}
+              className="text-gray-400 hover:text-white transition-colors"
+            >
+              Export TXT
+            </button>
+            <button
+              onClick={() =>
+                download(formatLogJson(exported()), `${filename}.json`, 'application/json')
+              }
+              className="text-gray-400 hover:text-white transition-colors"
+            >
+              Export JSON
+            </button>
+          </div>
+        )}
+      </div>
+      <div className="bg-gray-900 rounded-lg p-3 h-48 overflow-y-auto font-mono text-xs">
+        {entries.length === 0 ? (
+          <p className="text-gray-600">Waiting for action...</p>
+        ) : (
+          entries.map((entry, i) => (
+            <div key={i} className={LEVEL_STYLES[entry.level]}>
+              {formatLogLine(entry)}
+            </div>
+          ))
+        )}
+      </div>
+    </section>
+  );
+}
+
+export default LogPanel;
@@ -0,0 +1,184 @@
+import { useMemo, useState } from 'react';
+import type { GitHubRelease } from '../types';
+import { parseVersion, versionsMatch, compareVersions, formatFileSize } from '../utils/version';
+
+interface ReleaseBrowserProps {
+  releases: GitHubRelease[];
+  firmwareVersion: string;
+  onSelect: (release: GitHubRelease) => void;
+  onCancel: () => void;
+}
+
+const ALL = '';
+
+/**
+ * Browsable view of the full release catalogue, filterable by model and region.
+ * Picking a release that does not match the device requires an explicit acknowledgement.
+ */
+function ReleaseBrowser({ releases, firmwareVersion, onSelect, onCancel }: ReleaseBrowserProps) {
+  const device = parseVersion(firmwareVersion);
+  const [model, setModel] = useState(device?.modelCode ?? ALL);
+  const [region, setRegion] = useState(device?.region ?? ALL);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [pending, setPending] = useState<GitHubRelease | null>(null);
+  const [acknowledged, setAcknowledged] = useState(false);
+
+  const parsed = useMemo(
+    () => releases.map(release => ({ release, version: parseVersion(release.tag_name) })),
+    [releases],
+  );
+
+  const models = [...new Set(parsed.flatMap(p => (p.version ? [p.version.modelCode] : [])))];
+  const regions = [...new Set(parsed.flatMap(p => (p.version ? [p.version.region] : [])))];
+
+  const visible = parsed
+    .filter(
+      ({ version }) =>
+        (model === ALL || version?.modelCode === model) &&
+        (region === ALL || version?.region === region),
+    )
+    .sort((a, b) =>
+      a.version && b.version
+        ? compareVersions(b.version, a.version)
+        : b.release.published_at.localeCompare(a.release.published_at),
+    );
+
+  const choose = (release: GitHubRelease) => {
+    if (versionsMatch(firmwareVersion, release.tag_name)) {
+      onSelect(release);
+      return;
+    }
+    setPending(release);
+    setAcknowledged(false);
+  };
+
+  if (pending) {
+    return (
+      <div className="text-center">
+        <div className="bg-red-900/30 border border-red-700 rounded-lg p-4 mb-6 text-left">
+          <h3 className="font-semibold text-red-400 mb-2">Firmware Mismatch</h3>
+          <p className="text-gray-400 text-sm mb-2">
+            <span className="font-mono">{pending.tag_name}</span> was built for different firmware
+            than your device (<span className="font-mono">{firmwareVersion}</span>).
+          </p>
+          <p className="text-gray-400 text-sm mb-4">
+            Flashing an image from another build can leave the device unable to boot until the
+            correct stock image is restored from fastboot.
+          </p>
+          <label className="flex items-start gap-2 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={acknowledged}
+              onChange={e => setAcknowledged(e.target.checked)}
+              className="mt-1"
+            />
+            I understand the risk and want to use this release anyway
+          </label>
+        </div>
+        <div className="flex gap-4 justify-center">
+          <button
+            onClick={() => setPending(null)}
+            className="bg-gray-600 hover:bg-gray-700 text-white font-semibold py-3 px-6 rounded-lg transition-colors"
+          >
+            Back
+          </button>
+          <button
+            onClick={() => onSelect(pending)}
+            disabled={!acknowledged}
+            className="bg-red-600 hover:bg-red-700 disabled:opacity-50 text-white font-semibold py-3 px-6 rounded-lg transition-colors"
+          >
+            Use Mismatched Release
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="text-left">
+      <h2 className="text-xl font-semibold mb-4 text-center">All Releases</h2>
+      <div className="flex gap-2 mb-4 text-sm">
+        <select
+          value={model}
+          onChange={e => setModel(e.target.value)}
+          className="flex-1 bg-gray-900 rounded-lg px-3 py-2 text-gray-300"
+        >
+          <option value={ALL}>All models</option>
+          {models.map(m => (
+            <option key={m} value={m}>
+              {m}
+            </option>
+          ))}
+        </select>
+        <select
+          value={region}
+          onChange={e => setRegion(e.target.value)}
+          className="flex-1 bg-gray-900 rounded-lg px-3 py-2 text-gray-300"
+        >
+          <option value={ALL}>All regions</option>
+          {regions.map(r => (
+            <option key={r} value={r}>
+              {r}
+            </option>
+          ))}
+        </select>
+      </div>
+      <p className="text-gray-500 text-xs mb-2">
+        {visible.length} of {releases.length} releases
+      </p>
+      <ul className="space-y-2 max-h-96 overflow-y-auto mb-4">
+        {visible.map(({ release }) => {
+          const matches = versionsMatch(firmwareVersion, release.tag_name);
+          return (
+            <li key={release.tag_name} className="bg-gray-900 rounded-lg px-3 py-2 text-sm">
+              <div className="flex items-center justify-between gap-2">
+                <button
+                  onClick={() =>
+                    setExpanded(expanded === release.tag_name ? null : release.tag_name)
+                  }
+                  className="text-left min-w-0"
+                >
+                  <p className="font-mono text-gray-300 truncate">{release.tag_name}</p>
+                  <p className="text-gray-500 text-xs">
+                    {new Date(release.published_at).toLocaleDateString()} &middot;{' '}
+                    {release.assets.length} assets
+                    {matches && <span className="text-green-400"> &middot; matches device</span>}
+                  </p>
+                </button>
+                <button
+                  onClick={() => choose(release)}
+                  className={`text-xs font-semibold px-3 py-1 rounded-lg transition-colors ${
+                    matches
+                      ? 'bg-blue-600 hover:bg-blue-700 text-white'
+                      : 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+                  }`}
+                >
+                  Select
+                </button>
+              </div>
+              {expanded === release.tag_name && (
+                <ul className="mt-2 pl-3 border-l border-gray-700 text-xs text-gray-400 space-y-1">
+                  {release.assets.map(asset => (
+                    <li key={asset.name}>
+                      {asset.name} ({formatFileSize(asset.size)})
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+      <div className="text-center">
+        <button
+          onClick={onCancel}
+          className="bg-gray-600 hover:bg-gray-700 text-white font-semibold py-2 px-6 rounded-lg transition-colors"
+        >
+          Back
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default ReleaseBrowser;
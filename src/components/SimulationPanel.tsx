@@ -0,0 +1,74 @@
+import { useState } from 'react';
+import type { SimulationScenario } from '../types';
+import { SIMULATION_SCENARIOS, saveSimulationScenario } from '../services/simulated';
+
+interface SimulationPanelProps {
+  scenario: SimulationScenario | null;
+}
+
+/**
+ * Settings panel for the simulated device backend. The backend is chosen
+ * when the page loads, so applying a change reloads the page.
+ */
+function SimulationPanel({ scenario }: SimulationPanelProps) {
+  const [selected, setSelected] = useState<SimulationScenario | ''>(scenario ?? '');
+
+  const apply = () => {
+    saveSimulationScenario(selected || null);
+    // Drop a ?simulate= flag so the saved setting takes effect
+    const url = new URL(window.location.href);
+    url.searchParams.delete('simulate');
+    window.location.assign(url.toString());
+  };
+
+  return (
+    <details className="bg-gray-800 rounded-xl p-4 mb-6">
+      <summary className="font-semibold text-sm text-gray-400 cursor-pointer">
+        Simulated Device
+      </summary>
+      <p className="text-gray-500 text-xs mt-2 mb-3">
+        Walk through the app without a phone attached. Nothing is sent over USB. You can also add{' '}
+        <code>?simulate=&lt;scenario&gt;</code> to the URL.
+      </p>
+      <ul className="space-y-2 mb-3 text-sm">
+        <li>
+          <label className="flex items-start gap-2 bg-gray-900 rounded-lg px-3 py-2">
+            <input
+              type="radio"
+              checked={selected === ''}
+              onChange={() => setSelected('')}
+              className="mt-1"
+            />
+            <span className="text-gray-300">Off (real device)</span>
+          </label>
+        </li>
+        {SIMULATION_SCENARIOS.map(s => (
+          <li key={s.id}>
+            <label className="flex items-start gap-2 bg-gray-900 rounded-lg px-3 py-2">
+              <input
+                type="radio"
+                checked={selected === s.id}
+                onChange={() => setSelected(s.id)}
+                className="mt-1"
+              />
+              <span className="text-left">
+                <span className="text-gray-300">{s.label}</span>{' '}
+                <code className="text-gray-500 text-xs">{s.id}</code>
+                <span className="block text-gray-500 text-xs">{s.description}</span>
+              </span>
+            </label>
+          </li>
+        ))}
+      </ul>
+      <button
+        onClick={apply}
+        disabled={selected === (scenario ?? '')}
+        className="bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white font-semibold py-2 px-4 rounded-lg text-sm transition-colors"
+      >
+        Apply and Reload
+      </button>
+    </details>
+  );
+}
+
+export default SimulationPanel;
@@ -0,0 +1,1488 @@
+import type {
+  AppState,
+  BootOutcome,
+  BootPartition,
+  BootVerification,
+  DeviceInfo,
+  DevicePreflightInfo,
+  DeviceProfile,
+  DownloadProgress,
+  FastbootDiagnostics,
+  FlashMode,
+  FlashProgress,
+  FlashState,
+  GitHubAsset,
+  GitHubRelease,
+  ImageChecksum,
+  LogLevel,
+  MagiskAppInstall,
+  MagiskStatus,
+  NearbyRelease,
+  RateLimitInfo,
+  SlotInfo,
+  SlotTarget,
+} from '../types';
+import type { DownloadResult } from '../services/download';
+import { CANCELLABLE_STATES, canTransition } from './transitions';
+import { parseVersion, versionsMatch, formatFileSize } from '../utils/version';
+import { findDeviceProfile, describeSupportedDevices } from '../utils/devices';
+import { sha256Hex, parseChecksumFile, parseSingleChecksum } from '../utils/checksum';
+import { inspectBootImage } from '../utils/bootimg';
+import { checkFlashPreconditions } from '../utils/getvar';
+import { runDeviceChecks } from '../utils/preflight';
+import { extractMagiskTools } from '../utils/magisk';
+import { extractOtaPartition, findOtaFirmwareVersion } from '../utils/ota';
+import {
+  BootloaderLockedError,
+  ChecksumMismatchError,
+  IncompatibleError,
+  PreflightError,
+  TransferInterruptedError,
+  UserCancelledError,
+  errorKind,
+  isRetryable,
+  remediationFor,
+} from '../utils/errors';
+
+export interface AdbBackend {
+  connect(signal?: AbortSignal): Promise<void>;
+  reconnect(signal?: AbortSignal): Promise<void>;
+  isConnected(): boolean;
+  waitForDevice(timeoutMs: number): Promise<boolean>;
+  waitForBootCompleted(timeoutMs: number): Promise<boolean>;
+  getDeviceInfo(): Promise<DeviceInfo>;
+  getPreflightInfo(): Promise<DevicePreflightInfo>;
+  getMagiskStatus(): Promise<MagiskStatus>;
+  getProperty(propName: string): Promise<string>;
+  shell(command: string): Promise<string>;
+  shellStreaming(
+    command: string,
+    onLine: (line: string) => void,
+    signal?: AbortSignal,
+  ): Promise<number>;
+  push(path: string, blob: Blob, permission?: number): Promise<void>;
+  pull(path: string): Promise<Blob>;
+  getMagiskAppVersionCode(): Promise<number | null>;
+  installApk(apk: Blob, onProgress?: (fraction: number) => void): Promise<void>;
+  rebootToBootloader(): Promise<void>;
+  disconnect(): Promise<void>;
+}
+
+export interface FastbootBackend {
+  connect(signal?: AbortSignal): Promise<void>;
+  disconnect(): Promise<void>;
+  isConnected(): boolean;
+  watchDisconnect(onDisconnect: () => void): () => void;
+  isBootloaderUnlocked(): Promise<boolean>;
+  getDiagnostics(): Promise<FastbootDiagnostics>;
+  waitForDevice(timeoutMs: number, signal?: AbortSignal): Promise<boolean>;
+  getSlotInfo(): Promise<SlotInfo>;
+  resolvePartitions(slotInfo: SlotInfo, target: SlotTarget, partition: BootPartition): string[];
+  flashPartitions(
+    imageBlob: Blob,
+    partitions: string[],
+    onProgress?: (progress: FlashProgress) => void,
+  ): Promise<void>;
+  reboot(): Promise<void>;
+}
+
+export interface ReleaseBackend {
+  fetchReleases(profile: DeviceProfile): Promise<GitHubRelease[]>;
+  findMatchingRelease(
+    profile: DeviceProfile,
+    firmwareVersion: string,
+  ): Promise<GitHubRelease | null>;
+  findNearestReleases(profile: DeviceProfile, firmwareVersion: string): Promise<NearbyRelease[]>;
+  getPatchedImageAsset(release: GitHubRelease, profile: DeviceProfile): GitHubAsset | null;
+  getStockImageAsset(release: GitHubRelease, profile: DeviceProfile): GitHubAsset | null;
+  getImageAsset(
+    release: GitHubRelease,
+    profile: DeviceProfile,
+    mode: FlashMode,
+  ): GitHubAsset | null;
+  getChecksumAsset(release: GitHubRelease, imageName: string): GitHubAsset | null;
+  fetchMagiskRelease(tag?: string): Promise<GitHubRelease>;
+  getMagiskApkAsset(release: GitHubRelease): GitHubAsset | null;
+  getRateLimit(): RateLimitInfo | null;
+  isServingStaleReleases(): boolean;
+}
+
+export interface ImageStore {
+  getImage(tag: string, asset: GitHubAsset): Promise<Blob | null>;
+  putImage(tag: string, asset: GitHubAsset, blob: Blob): Promise<void>;
+  removeImage(tag: string, asset: GitHubAsset): Promise<void>;
+}
+
+export type Downloader = (
+  url: string,
+  onProgress?: (progress: DownloadProgress) => void,
+  signal?: AbortSignal,
+) => Promise<DownloadResult>;
+
+export interface FlashDependencies {
+  isUsbSupported: () => boolean;
+  // Device backends are recreated on reset, so they are passed as factories
+  createAdb: () => AdbBackend;
+  createFastboot: () => FastbootBackend;
+  releases: ReleaseBackend;
+  imageStore: ImageStore | null;
+  download: Downloader;
+}
+
+export type FlashEvent =
+  | { type: 'CONNECT_ADB' }
+  | { type: 'BROWSE_RELEASES' }
+  | { type: 'SELECT_RELEASE'; release: GitHubRelease }
+  | { type: 'CLOSE_RELEASE_BROWSER' }
+  | { type: 'DOWNLOAD_IMAGE'; mode: FlashMode }
+  | { type: 'LOAD_LOCAL_IMAGE'; file: File }
+  | { type: 'LOAD_OTA_PACKAGE'; file: File }
+  // Patch the stock image on the device, with the latest Magisk release unless an APK is given
+  | { type: 'PATCH_ON_DEVICE'; magiskApk?: File }
+  // Install the Magisk app after a rooted boot, matching the daemon unless an APK is given
+  | { type: 'INSTALL_MAGISK_APP'; apk?: File }
+  | { type: 'VERIFY_IMAGE' }
+  | { type: 'SELECT_SLOT_TARGET'; target: SlotTarget }
+  | { type: 'RUN_DEVICE_CHECKS' }
+  | { type: 'REBOOT_TO_BOOTLOADER' }
+  | { type: 'CONNECT_FASTBOOT' }
+  // After an interrupted flash, reconnect in fastboot and write the partition again
+  | { type: 'RECOVER_FLASH'; mode: FlashMode }
+  // Run the step that failed again, keeping the session
+  | { type: 'RETRY' }
+  // Abandon the step in progress where that is safe, returning to where it started
+  | { type: 'CANCEL' }
+  | { type: 'RESET' };
+
+export const initialState: AppState = {
+  state: 'IDLE',
+  flashMode: 'patch',
+  deviceInfo: null,
+  deviceProfile: null,
+  matchedRelease: null,
+  nearbyReleases: [],
+  releaseCatalogue: [],
+  releaseMismatch: false,
+  imageBlob: null,
+  imageSource: 'release',
+  imageName: null,
+  imageChecksum: null,
+  bootImageInfo: null,
+  downloadProgress: null,
+  flashProgress: null,
+  slotTarget: 'active',
+  slotInfo: null,
+  deviceChecks: [],
+  fastbootWait: null,
+  fastbootDiagnostics: null,
+  preflightFindings: [],
+  bootVerification: null,
+  magiskAppInstall: null,
+  error: null,
+  failure: null,
+  logs: [],
+};
+
+// How long to wait for the device to come back in fastboot mode before asking
+// the user to connect manually
+const FASTBOOT_WAIT_TIMEOUT_MS = 90 * 1000;
+
+// How long the device gets to come back over ADB after the final reboot, and
+// then to report boot completion
+const BOOT_WAIT_TIMEOUT_MS = 3 * 60 * 1000;
+const BOOT_COMPLETED_TIMEOUT_MS = 2 * 60 * 1000;
+
+// Scratch directory for on-device patching; /data/local/tmp is writable by the ADB shell user
+const PATCH_DIR = '/data/local/tmp/oneplus-flasher';
+
+// Release tag of a stable Magisk version as `magisk -v` prints it ("28.1:MAGISK:R").
+// Canary builds have no matching release, so they get the latest one.
+function magiskReleaseTag(version: string | null): string | undefined {
+  const name = version?.split(':')[0] ?? '';
+  return /^\d+(\.\d+)+$/.test(name) ? `v${name}` : undefined;
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : 'Unknown error';
+}
+
+/**
+ * Framework-independent driver of the flash flow. UI layers subscribe to
+ * state snapshots and feed user actions in through send().
+ */
+export class FlashOrchestrator {
+  private state: AppState = initialState;
+  private listeners = new Set<(state: AppState) => void>();
+  private deps: FlashDependencies;
+  private adb: AdbBackend;
+  private fastboot: FastbootBackend;
+  // The APK used for on-device patching, so the app installed afterwards matches it
+  private magiskApk: Blob | null = null;
+  // Where RETRY resumes: the state the last step started from, and how to run it again
+  private retryStep: { from: FlashState; run: () => Promise<void> } | null = null;
+  // Aborts the cancellable step in progress
+  private abortController: AbortController | null = null;
+  // Set while a partition may be half-written, until a flash completes
+  private flashInterrupted = false;
+
+  constructor(deps: FlashDependencies) {
+    this.deps = deps;
+    this.adb = deps.createAdb();
+    this.fastboot = deps.createFastboot();
+  }
+
+  getState = (): AppState => this.state;
+
+  subscribe = (listener: (state: AppState) => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  async send(event: FlashEvent): Promise<void> {
+    if (event.type !== 'RETRY' && event.type !== 'CANCEL' && event.type !== 'RESET') {
+      this.checkpoint(() => this.send(event));
+    }
+
+    switch (event.type) {
+      case 'CONNECT_ADB':
+        return this.connectAdb();
+      case 'BROWSE_RELEASES':
+        return this.openReleaseBrowser();
+      case 'SELECT_RELEASE':
+        return this.selectRelease(event.release);
+      case 'CLOSE_RELEASE_BROWSER':
+        return this.transition(this.state.matchedRelease ? 'RELEASE_MATCHED' : 'RELEASE_NOT_FOUND');
+      case 'DOWNLOAD_IMAGE':
+        return this.downloadImage(event.mode);
+      case 'LOAD_LOCAL_IMAGE':
+        return this.loadLocalImage(event.file);
+      case 'LOAD_OTA_PACKAGE':
+        return this.loadOtaPackage(event.file);
+      case 'PATCH_ON_DEVICE':
+        return this.patchOnDevice(event.magiskApk);
+      case 'INSTALL_MAGISK_APP':
+        return this.installMagiskApp(event.apk);
+      case 'VERIFY_IMAGE':
+        return this.verifyImage();
+      case 'SELECT_SLOT_TARGET':
+        return this.update({ slotTarget: event.target });
+      case 'RUN_DEVICE_CHECKS':
+        await this.runDeviceChecks();
+        return;
+      case 'REBOOT_TO_BOOTLOADER':
+        return this.rebootToBootloader();
+      case 'CONNECT_FASTBOOT':
+        return this.connectFastboot();
+      case 'RECOVER_FLASH':
+        return this.recoverFlash(event.mode);
+      case 'RETRY':
+        return this.retry();
+      case 'CANCEL':
+        return this.cancel();
+      case 'RESET':
+        return this.reset();
+    }
+  }
+
+  private update(patch: Partial<AppState>): void {
+    this.state = { ...this.state, ...patch };
+    for (const listener of this.listeners) {
+      listener(this.state);
+    }
+  }
+
+  private transition(to: FlashState, extra: Partial<AppState> = {}): void {
+    if (!canTransition(this.state.state, to)) {
+      throw new Error(`Invalid transition ${this.state.state} -> ${to}`);
+    }
+    this.update({ state: to, ...extra });
+  }
+
+  private log(message: string, level: LogLevel = 'info', data?: Record<string, unknown>): void {
+    const entry = { timestamp: Date.now(), level, phase: this.state.state, message, data };
+    this.update({ logs: [...this.state.logs, entry] });
+  }
+
+  // While a partition may be half-written, failures return to the recovery
+  // screen instead, which keeps the unload guard and the re-flash options
+  private fail(error: string, cause?: unknown): void {
+    this.log(error, 'error', cause instanceof Error ? { stack: cause.stack } : undefined);
+    const kind = errorKind(cause);
+    const failure = {
+      kind,
+      remediation: remediationFor(kind),
+      retryable: this.retryStep !== null && isRetryable(kind),
+    };
+    if (!this.flashInterrupted) {
+      this.transition('ERROR', { error, failure });
+    } else if (this.state.state === 'FLASH_INTERRUPTED') {
+      this.update({ error, failure, downloadProgress: null });
+    } else {
+      this.transition('FLASH_INTERRUPTED', { error, failure, fastbootWait: null });
+    }
+  }
+
+  /**
+   * Record where a retry resumes. Events checkpoint themselves; steps the flow
+   * moves on to by itself checkpoint again so a retry does not repeat what
+   * already succeeded (and, for connections, prompt for the device again).
+   */
+  private checkpoint(run: () => Promise<void>, from: FlashState = this.state.state): void {
+    this.retryStep = { from, run };
+  }
+
+  // Rewind to the state the failed step started from and run it again; the
+  // device, image and checks gathered so far are kept
+  private async retry(): Promise<void> {
+    const step = this.retryStep;
+    if (this.state.state !== 'ERROR' || !step) return;
+
+    this.log('Retrying the failed step');
+    this.update({
+      state: step.from,
+      error: null,
+      failure: null,
+      downloadProgress: null,
+      flashProgress: null,
+    });
+    await step.run();
+  }
+
+  // Start a cancellable step; CANCEL aborts the returned signal
+  private cancellable(): AbortSignal {
+    this.abortController = new AbortController();
+    return this.abortController.signal;
+  }
+
+  /**
+   * Abort the step in progress. Steps notice the abort where they await and
+   * return to the state they started from, cleaning up on the way; nothing is
+   * in flight while waiting for fastboot, so that wait is left right away.
+   */
+  private async cancel(): Promise<void> {
+    const controller = this.abortController;
+    if (!controller || !CANCELLABLE_STATES.includes(this.state.state)) return;
+
+    this.log('Cancelling...');
+    controller.abort(new UserCancelledError('Cancelled'));
+    if (this.state.state === 'WAITING_FASTBOOT') {
+      this.leaveFastboot();
+    }
+  }
+
+  // Back out of the fastboot phase to the flash confirmation, keeping the image,
+  // or to the recovery screen if the partition may be half-written
+  private leaveFastboot(): void {
+    if (this.flashInterrupted) {
+      this.log(
+        'Cancelled. The partition may still be incomplete; do not restart the device.',
+        'warn',
+      );
+      this.transition('FLASH_INTERRUPTED', { fastbootWait: null });
+      return;
+    }
+    this.log(
+      'Cancelled. The device stays in fastboot mode; restart it to Android before trying again.',
+      'warn',
+    );
+    this.transition(
+      this.state.flashMode === 'restore' ? 'CONFIRMING_RESTORE' : 'CONFIRMING_FLASH',
+      { fastbootWait: null },
+    );
+  }
+
+  // The log survives a reset so a failed attempt can still be exported
+  private reset(): void {
+    this.abortController?.abort(new UserCancelledError('Cancelled'));
+    this.abortController = null;
+    // Release the USB interfaces, or the next connection finds the device busy
+    void this.adb.disconnect().catch(() => undefined);
+    void this.fastboot.disconnect().catch(() => undefined);
+    this.adb = this.deps.createAdb();
+    this.fastboot = this.deps.createFastboot();
+    this.magiskApk = null;
+    this.retryStep = null;
+    this.flashInterrupted = false;
+    this.state = { ...initialState, logs: this.state.logs };
+    this.log('Session reset');
+  }
+
+  // Pick up stale-catalogue fallbacks after a GitHub request
+  private reportReleaseSource(): void {
+    if (!this.deps.releases.isServingStaleReleases()) return;
+
+    const limit = this.deps.releases.getRateLimit();
+    const reset = limit?.remaining === 0 ? new Date(limit.resetAt).toLocaleTimeString() : null;
+    this.log(
+      reset
+        ? `GitHub rate limit reached (resets at ${reset}), using cached release list`
+        : 'GitHub unreachable, using cached release list',
+    );
+  }
+
+  /**
+   * Return a release asset from the image store, downloading and storing it on a miss.
+   * Store failures never block the download itself.
+   */
+  private async fetchAsset(
+    tag: string,
+    asset: GitHubAsset,
+    onProgress?: (progress: DownloadProgress) => void,
+    signal?: AbortSignal,
+  ): Promise<{ blob: Blob; fromCache: boolean; source: string }> {
+    const store = this.deps.imageStore;
+    if (store) {
+      const cached = await store.getImage(tag, asset).catch(() => null);
+      if (cached) {
+        return { blob: cached, fromCache: true, source: 'cache' };
+      }
+    }
+
+    const { blob, source } = await this.deps.download(
+      asset.browser_download_url,
+      onProgress,
+      signal,
+    );
+
+    if (store) {
+      try {
+        await store.putImage(tag, asset, blob);
+      } catch {
+        // Quota exceeded or storage disabled: the download is still usable
+      }
+    }
+
+    return { blob, fromCache: false, source };
+  }
+
+  private async connectAdb(): Promise<void> {
+    if (!this.deps.isUsbSupported()) {
+      this.log('WebUSB is not supported in this browser', 'warn');
+      this.transition('BROWSER_UNSUPPORTED');
+      return;
+    }
+    this.log('WebUSB is supported');
+
+    this.transition('ADB_CONNECTING');
+    this.log('Connecting to device via ADB...');
+
+    const signal = this.cancellable();
+    try {
+      await this.adb.connect(signal);
+      this.log('ADB connection established');
+      this.transition('ADB_CONNECTED');
+    } catch (err) {
+      if (err instanceof UserCancelledError) {
+        this.transition('WAITING_ADB_CONNECT');
+        this.log(signal.aborted ? 'Connection cancelled' : 'Device selection cancelled');
+      } else {
+        this.fail(`ADB connection failed: ${errorMessage(err)}`, err);
+      }
+      return;
+    }
+
+    // Automatically proceed to firmware detection
+    await this.identifyDevice();
+  }
+
+  private async identifyDevice(): Promise<void> {
+    this.checkpoint(() => this.identifyDevice());
+    const detected = await this.detectFirmware();
+    if (detected) {
+      const { deviceInfo, deviceProfile } = detected;
+      this.checkpoint(() => this.findRelease(deviceInfo, deviceProfile));
+      await this.findRelease(deviceInfo, deviceProfile);
+    }
+  }
+
+  private async detectFirmware(): Promise<{
+    deviceInfo: DeviceInfo;
+    deviceProfile: DeviceProfile;
+  } | null> {
+    this.transition('DETECTING_FIRMWARE');
+    this.log('Reading device information...');
+
+    try {
+      const deviceInfo = await this.adb.getDeviceInfo();
+      this.log(`Device: ${deviceInfo.model}`, 'info', { deviceInfo });
+      this.log(`Firmware: ${deviceInfo.firmwareVersion}`);
+
+      // Validate device
+      const parsed = parseVersion(deviceInfo.firmwareVersion);
+      if (!parsed) {
+        const unrecognized = new IncompatibleError(
+          `Unrecognized firmware version: ${deviceInfo.firmwareVersion}`,
+        );
+        this.fail(unrecognized.message, unrecognized);
+        return null;
+      }
+
+      this.log(
+        `Parsed firmware: ${parsed.modelCode}, OS ${parsed.osMajor}, build ${parsed.version}, region ${parsed.regionCode}`,
+      );
+
+      const deviceProfile = findDeviceProfile(parsed.modelCode);
+      if (!deviceProfile) {
+        const unsupported = new IncompatibleError(
+          `Unsupported device ${parsed.modelCode}. Supported devices: ${describeSupportedDevices()}`,
+        );
+        this.fail(unsupported.message, unsupported);
+        return null;
+      }
+
+      this.log(`Matched device profile: ${deviceProfile.name} (${deviceProfile.partition})`);
+      this.transition('FIRMWARE_DETECTED', { deviceInfo, deviceProfile });
+      return { deviceInfo, deviceProfile };
+    } catch (err) {
+      this.fail(`Failed to read device info: ${errorMessage(err)}`, err);
+      return null;
+    }
+  }
+
+  private async findRelease(deviceInfo: DeviceInfo, deviceProfile: DeviceProfile): Promise<void> {
+    const releases = this.deps.releases;
+    this.transition('FETCHING_RELEASES');
+    this.log('Fetching available releases...');
+
+    try {
+      const release = await releases.findMatchingRelease(deviceProfile, deviceInfo.firmwareVersion);
+      this.reportReleaseSource();
+
+      if (!release) {
+        this.log(`No release found for firmware ${deviceInfo.firmwareVersion}`);
+        const nearbyReleases = await releases.findNearestReleases(
+          deviceProfile,
+          deviceInfo.firmwareVersion,
+        );
+        for (const nearby of nearbyReleases) {
+          this.log(`Closest ${nearby.direction} release: ${nearby.release.tag_name}`);
+        }
+        this.transition('RELEASE_NOT_FOUND', { nearbyReleases });
+        return;
+      }
+
+      const patched = releases.getPatchedImageAsset(release, deviceProfile);
+      const stock = releases.getStockImageAsset(release, deviceProfile);
+      if (!patched && !stock) {
+        const empty = new IncompatibleError('Release found but no images available');
+        this.fail(empty.message, empty);
+        return;
+      }
+
+      this.log(`Found matching release: ${release.tag_name}`, 'info', { tag: release.tag_name });
+      if (patched) {
+        this.log(`Patched image: ${patched.name} (${formatFileSize(patched.size)})`);
+      }
+      if (stock) {
+        this.log(`Stock image: ${stock.name} (${formatFileSize(stock.size)})`);
+      }
+      this.transition('RELEASE_MATCHED', { matchedRelease: release });
+    } catch (err) {
+      this.reportReleaseSource();
+      this.fail(`Failed to fetch releases: ${errorMessage(err)}`, err);
+    }
+  }
+
+  // Open the full release catalogue
+  private async openReleaseBrowser(): Promise<void> {
+    const profile = this.state.deviceProfile;
+    if (!profile) return;
+
+    try {
+      const releaseCatalogue = await this.deps.releases.fetchReleases(profile);
+      this.reportReleaseSource();
+      this.log(`Loaded ${releaseCatalogue.length} releases`);
+      this.transition('BROWSING_RELEASES', { releaseCatalogue });
+    } catch (err) {
+      this.reportReleaseSource();
+      this.fail(`Failed to fetch releases: ${errorMessage(err)}`, err);
+    }
+  }
+
+  // Pick a release from the catalogue, possibly one that does not match the device
+  private selectRelease(release: GitHubRelease): void {
+    const releaseMismatch = !versionsMatch(
+      this.state.deviceInfo?.firmwareVersion ?? '',
+      release.tag_name,
+    );
+    if (releaseMismatch) {
+      this.log(`Selected release ${release.tag_name} does not match device firmware`, 'warn');
+    } else {
+      this.log(`Selected release: ${release.tag_name}`, 'info', { tag: release.tag_name });
+    }
+    this.transition('RELEASE_MATCHED', { matchedRelease: release, releaseMismatch });
+  }
+
+  // Download the patched or stock image
+  private async downloadImage(mode: FlashMode): Promise<void> {
+    const release = this.state.matchedRelease;
+    const profile = this.state.deviceProfile;
+    if (!release || !profile) return;
+
+    const asset = this.deps.releases.getImageAsset(release, profile, mode);
+    if (!asset) return;
+
+    this.transition('DOWNLOADING_IMAGE', {
+      flashMode: mode,
+      downloadProgress: { loaded: 0, total: asset.size, percentage: 0 },
+    });
+    this.log(mode === 'restore' ? 'Downloading stock image...' : 'Downloading patched image...');
+
+    const signal = this.cancellable();
+    try {
+      const { blob, fromCache, source } = await this.fetchAsset(
+        release.tag_name,
+        asset,
+        (progress: DownloadProgress) => {
+          this.update({ downloadProgress: progress });
+        },
+        signal,
+      );
+
+      if (fromCache) {
+        this.log(`Using cached image: ${formatFileSize(blob.size)}`);
+      } else {
+        this.log(`Download complete: ${formatFileSize(blob.size)} via ${source}`, 'info', {
+          asset: asset.name,
+          size: blob.size,
+          source,
+        });
+      }
+      this.transition('DOWNLOAD_COMPLETE', {
+        imageBlob: blob,
+        imageSource: 'release',
+        imageName: asset.name,
+        downloadProgress: null,
+      });
+    } catch (err) {
+      if (signal.aborted) {
+        this.log('Download cancelled');
+        this.transition('RELEASE_MATCHED', { downloadProgress: null });
+        return;
+      }
+      this.fail(`Download failed: ${errorMessage(err)}`, err);
+    }
+  }
+
+  // Load a user-supplied image instead of a release asset
+  private loadLocalImage(file: File): void {
+    this.log(`Loaded local image: ${file.name} (${formatFileSize(file.size)})`);
+    this.log('Local images come from an unverified source', 'warn');
+    this.transition('DOWNLOAD_COMPLETE', {
+      imageBlob: file,
+      imageSource: 'local',
+      imageName: file.name,
+      imageChecksum: null,
+      bootImageInfo: null,
+    });
+  }
+
+  // Extract the stock image from an official full OTA package for the device's build
+  private async loadOtaPackage(file: File): Promise<void> {
+    const { deviceProfile: profile, deviceInfo } = this.state;
+    if (!profile || !deviceInfo) return;
+
+    const from = this.state.state;
+    this.transition('EXTRACTING_OTA');
+    this.log(`Extracting ${profile.partition} from ${file.name} (${formatFileSize(file.size)})...`);
+
+    const signal = this.cancellable();
+    try {
+      const { image, metadata, verified } = await extractOtaPartition(
+        file,
+        profile.partition,
+        signal,
+      );
+      const fingerprint = metadata['post-build'] ?? null;
+      const otaVersion = findOtaFirmwareVersion(metadata);
+      this.log(`OTA package builds ${otaVersion ?? fingerprint ?? 'an unknown build'}`, 'info', {
+        postBuild: fingerprint,
+        firmwareVersion: otaVersion,
+      });
+
+      // Prefer the display ID; the fingerprint is the fallback when the package has none
+      if (otaVersion) {
+        if (!versionsMatch(deviceInfo.firmwareVersion, otaVersion)) {
+          const mismatch = new IncompatibleError(
+            `OTA package is for ${otaVersion}, but the device runs ${deviceInfo.firmwareVersion}`,
+          );
+          this.fail(mismatch.message, mismatch);
+          return;
+        }
+      } else if (fingerprint && deviceInfo.fingerprint) {
+        if (fingerprint !== deviceInfo.fingerprint) {
+          const mismatch = new IncompatibleError(
+            `OTA package is for ${fingerprint}, but the device runs ${deviceInfo.fingerprint}`,
+          );
+          this.fail(mismatch.message, mismatch);
+          return;
+        }
+      } else {
+        // Flashing a stock image from an unknown build is as risky as a mismatch
+        const unmatched = new IncompatibleError(
+          'Could not match the OTA package to the device firmware: it reports neither a display ID nor a comparable fingerprint',
+        );
+        this.fail(unmatched.message, unmatched);
+        return;
+      }
+
+      this.log(
+        verified
+          ? `Extracted ${profile.partition} (${formatFileSize(image.size)}), hash verified against the payload manifest`
+          : `Extracted ${profile.partition} (${formatFileSize(image.size)})`,
+      );
+      this.transition('DOWNLOAD_COMPLETE', {
+        flashMode: 'restore',
+        imageBlob: image,
+        imageSource: 'ota',
+        imageName: `${profile.partition}.img`,
+        imageChecksum: null,
+        bootImageInfo: null,
+      });
+    } catch (err) {
+      if (signal.aborted) {
+        this.log('OTA extraction cancelled');
+        this.transition(from);
+        return;
+      }
+      this.fail(`OTA extraction failed: ${errorMessage(err)}`, err);
+    }
+  }
+
+  /**
+   * Patch a stock image with Magisk on the device itself, the way the Magisk app
+   * does: push the image and the tooling from the Magisk APK, run boot_patch.sh
+   * over ADB and pull the result back as the image to flash
+   */
+  private async patchOnDevice(magiskApk?: File): Promise<void> {
+    const { matchedRelease: release, deviceProfile: profile } = this.state;
+    if (!profile) return;
+
+    // From a matched release the stock asset is fetched; otherwise the loaded image is used
+    const stockAsset =
+      this.state.state === 'RELEASE_MATCHED' && release
+        ? this.deps.releases.getStockImageAsset(release, profile)
+        : null;
+    const source =
+      release && stockAsset ? { tag: release.tag_name, asset: stockAsset } : this.state.imageBlob;
+    if (!source) return;
+    const stockName = source instanceof Blob ? this.state.imageName : source.asset.name;
+
+    const from = this.state.state;
+    this.transition('PATCHING_ON_DEVICE');
+
+    // Cancelling stops boot_patch.sh or is noticed between stages; either way the
+    // scratch directory is cleaned up before the flow moves back
+    const signal = this.cancellable();
+    try {
+      let stock: Blob;
+      if (source instanceof Blob) {
+        stock = source;
+      } else {
+        this.log('Downloading stock image...');
+        ({ blob: stock } = await this.fetchAsset(
+          source.tag,
+          source.asset,
+          progress => this.update({ downloadProgress: progress }),
+          signal,
+        ));
+        this.update({ downloadProgress: null });
+      }
+
+      const stockInfo = await inspectBootImage(stock, profile.partition);
+      if (stockInfo.magiskPatched) {
+        const patched = new IncompatibleError('The image is already Magisk-patched');
+        this.fail(patched.message, patched);
+        return;
+      }
+
+      const apk = magiskApk ?? (await this.fetchMagiskApk(undefined, signal));
+      if (magiskApk) {
+        this.log(`Using Magisk APK: ${magiskApk.name}`);
+      }
+      this.magiskApk = apk;
+      signal.throwIfAborted();
+
+      const abi = await this.adb.getProperty('ro.product.cpu.abi');
+      const tools = await extractMagiskTools(apk, abi);
+      this.log(`Pushing ${tools.length} Magisk files for ${abi}...`, 'info', {
+        tools: tools.map(tool => tool.name),
+      });
+
+      const image = `${profile.partition}.img`;
+      await this.adb.shell(`rm -rf ${PATCH_DIR} && mkdir -p ${PATCH_DIR}`);
+      for (const tool of tools) {
+        await this.adb.push(`${PATCH_DIR}/${tool.name}`, tool.blob, 0o755);
+      }
+      await this.adb.push(`${PATCH_DIR}/${image}`, stock);
+      signal.throwIfAborted();
+
+      // Same environment the Magisk app patches with on devices that use init_boot
+      this.log('Running boot_patch.sh on the device...');
+      const exitCode = await this.adb.shellStreaming(
+        `cd ${PATCH_DIR} && KEEPVERITY=true KEEPFORCEENCRYPT=true ASH_STANDALONE=1 ./busybox sh boot_patch.sh ${image}`,
+        line => {
+          if (line.trim()) this.log(line.trim());
+        },
+        signal,
+      );
+      if (exitCode !== 0) {
+        throw new Error(`boot_patch.sh exited with code ${exitCode}`);
+      }
+
+      signal.throwIfAborted();
+
+      const patched = await this.adb.pull(`${PATCH_DIR}/new-boot.img`);
+      this.log(`Pulled patched image: ${formatFileSize(patched.size)}`);
+
+      this.transition('DOWNLOAD_COMPLETE', {
+        flashMode: 'patch',
+        imageBlob: patched,
+        imageSource: 'patched',
+        imageName: `magisk_patched-${stockName ?? image}`,
+        imageChecksum: null,
+        bootImageInfo: null,
+      });
+    } catch (err) {
+      if (!signal.aborted) {
+        this.fail(`On-device patching failed: ${errorMessage(err)}`, err);
+      }
+    } finally {
+      await this.adb.shell(`rm -rf ${PATCH_DIR}`).catch(() => undefined);
+    }
+
+    if (signal.aborted && this.state.state === 'PATCHING_ON_DEVICE') {
+      this.log('On-device patching cancelled');
+      this.transition(from, { downloadProgress: null });
+    }
+  }
+
+  private async fetchMagiskApk(tag?: string, signal?: AbortSignal): Promise<Blob> {
+    const release = await this.deps.releases.fetchMagiskRelease(tag);
+    const asset = this.deps.releases.getMagiskApkAsset(release);
+    if (!asset) {
+      throw new Error(`Magisk ${release.tag_name} has no APK asset`);
+    }
+
+    this.log(`Downloading Magisk ${release.tag_name}...`, 'info', { asset: asset.name });
+    const { blob } = await this.fetchAsset(
+      release.tag_name,
+      asset,
+      progress => this.update({ downloadProgress: progress }),
+      signal,
+    );
+    this.update({ downloadProgress: null });
+    return blob;
+  }
+
+  // The SHA-256 a release publishes for one of its images, or null if it has none
+  private async fetchExpectedChecksum(
+    release: GitHubRelease,
+    imageName: string,
+  ): Promise<string | null> {
+    const checksumAsset = this.deps.releases.getChecksumAsset(release, imageName);
+    if (!checksumAsset) return null;
+
+    const { blob } = await this.fetchAsset(release.tag_name, checksumAsset);
+    const text = await blob.text();
+    return checksumAsset.name === 'SHA256SUMS'
+      ? (parseChecksumFile(text).get(imageName) ?? null)
+      : parseSingleChecksum(text);
+  }
+
+  // Verify the image against the published checksum (release images only) and
+  // validate its boot image header, then confirm
+  private async verifyImage(): Promise<void> {
+    const { imageBlob: blob, deviceProfile: profile, imageSource, imageName } = this.state;
+    if (!blob || !profile) return;
+
+    this.transition('VERIFYING_IMAGE');
+    this.log('Verifying image checksum...');
+
+    let imageChecksum: ImageChecksum;
+    try {
+      const sha256 = await sha256Hex(blob);
+      this.log(`SHA-256: ${sha256}`, 'info', { imageName, sha256 });
+
+      let expected: string | null = null;
+      const release = this.state.matchedRelease;
+      if (imageSource === 'release' && release && imageName) {
+        expected = await this.fetchExpectedChecksum(release, imageName);
+
+        if (expected === null) {
+          this.log(`Release does not publish a checksum for ${imageName}`, 'warn');
+        } else if (expected !== sha256) {
+          this.log(`Expected SHA-256: ${expected}`);
+          const mismatch = new ChecksumMismatchError();
+          await this.rejectImage(mismatch.message, mismatch);
+          return;
+        } else {
+          this.log('Checksum verified');
+        }
+      } else {
+        this.log(
+          imageSource === 'patched'
+            ? 'Skipping checksum comparison for on-device patched image'
+            : imageSource === 'ota'
+              ? 'Skipping checksum comparison for image extracted from an OTA package'
+              : 'Skipping checksum comparison for local image',
+        );
+      }
+
+      imageChecksum = { sha256, verified: expected !== null };
+    } catch (err) {
+      this.fail(`Checksum verification failed: ${errorMessage(err)}`, err);
+      return;
+    }
+
+    this.log('Inspecting boot image...');
+    try {
+      const bootImageInfo = await inspectBootImage(blob, profile.partition);
+      this.log(
+        `Boot image header v${bootImageInfo.headerVersion}, ramdisk ${formatFileSize(bootImageInfo.ramdiskSize)} (${bootImageInfo.ramdiskFormat})`,
+        'info',
+        { bootImageInfo },
+      );
+      if (bootImageInfo.osVersion || bootImageInfo.osPatchLevel) {
+        this.log(
+          `OS version ${bootImageInfo.osVersion ?? 'unknown'}, patch level ${bootImageInfo.osPatchLevel ?? 'unknown'}`,
+        );
+      }
+
+      // Local images pick their mode from what they contain
+      let flashMode = this.state.flashMode;
+      if (bootImageInfo.magiskPatched === null) {
+        this.log('Could not read the ramdisk to tell whether the image is patched', 'warn');
+      } else {
+        this.log(bootImageInfo.magiskPatched ? 'Image is Magisk-patched' : 'Image is stock');
+        if (imageSource === 'local') {
+          flashMode = bootImageInfo.magiskPatched ? 'patch' : 'restore';
+        } else if (flashMode === 'patch' && !bootImageInfo.magiskPatched) {
+          const wrongImage = new IncompatibleError(
+            'Expected a Magisk-patched image, but the downloaded image is stock',
+          );
+          await this.rejectImage(wrongImage.message, wrongImage);
+          return;
+        } else if (flashMode === 'restore' && bootImageInfo.magiskPatched) {
+          const wrongImage = new IncompatibleError(
+            'Expected a stock image, but the downloaded image is Magisk-patched',
+          );
+          await this.rejectImage(wrongImage.message, wrongImage);
+          return;
+        }
+      }
+
+      this.update({ flashMode, imageChecksum, bootImageInfo });
+    } catch (err) {
+      await this.rejectImage(`Invalid ${profile.partition} image: ${errorMessage(err)}`, err);
+      return;
+    }
+
+    if (await this.runDeviceChecks()) {
+      this.transition(
+        this.state.flashMode === 'restore' ? 'CONFIRMING_RESTORE' : 'CONFIRMING_FLASH',
+      );
+    }
+  }
+
+  // Fail verification of the image in hand. A release image is dropped from the
+  // cache, and a retry downloads it again rather than checking the same bytes.
+  private async rejectImage(error: string, cause?: unknown): Promise<void> {
+    const { imageSource, matchedRelease: release, deviceProfile: profile, flashMode } = this.state;
+    const asset =
+      release && profile ? this.deps.releases.getImageAsset(release, profile, flashMode) : null;
+    if (imageSource === 'release' && release && asset) {
+      await this.evictImage(release, asset);
+      this.checkpoint(() => this.downloadImage(flashMode), 'RELEASE_MATCHED');
+    }
+    this.fail(error, cause);
+  }
+
+  private async evictImage(release: GitHubRelease, asset: GitHubAsset): Promise<void> {
+    await this.deps.imageStore?.removeImage(release.tag_name, asset).catch(() => undefined);
+  }
+
+  // Check the device over ADB while it is still booted, so a locked bootloader or
+  // flat battery is caught before a reboot cycle is spent on it
+  private async runDeviceChecks(): Promise<boolean> {
+    this.log('Running pre-flight checks...');
+    try {
+      const info = await this.adb.getPreflightInfo();
+      const deviceChecks = runDeviceChecks(info, this.state.bootImageInfo);
+      for (const check of deviceChecks) {
+        const level = check.status === 'pass' ? 'info' : check.status === 'warn' ? 'warn' : 'error';
+        this.log(`${check.label}: ${check.detail}`, level);
+      }
+      this.update({ deviceChecks });
+      return true;
+    } catch (err) {
+      this.fail(`Pre-flight checks failed: ${errorMessage(err)}`, err);
+      return false;
+    }
+  }
+
+  private async rebootToBootloader(): Promise<void> {
+    const failed = this.state.deviceChecks.filter(check => check.status === 'fail');
+    if (failed.length > 0) {
+      this.log(`Blocked by pre-flight checks: ${failed.map(c => c.label).join(', ')}`, 'error');
+      return;
+    }
+
+    this.transition('REBOOTING_BOOTLOADER');
+    this.log('Rebooting to bootloader...');
+
+    try {
+      // The ADB session is closed after an earlier reboot that was cancelled
+      if (!this.adb.isConnected()) {
+        await this.adb.reconnect();
+      }
+      await this.adb.rebootToBootloader();
+      await this.adb.disconnect();
+      this.log('Device is rebooting to bootloader');
+      this.log('Please wait for the device to enter fastboot mode...');
+      this.transition('WAITING_FASTBOOT');
+    } catch (err) {
+      this.fail(`Failed to reboot: ${errorMessage(err)}`, err);
+      return;
+    }
+
+    await this.waitForFastboot();
+  }
+
+  // Connect automatically once the device re-enumerates in fastboot mode
+  private async waitForFastboot(): Promise<void> {
+    const fastboot = this.fastboot;
+    this.update({ fastbootWait: 'waiting' });
+
+    const signal = this.cancellable();
+    const found = await fastboot.waitForDevice(FASTBOOT_WAIT_TIMEOUT_MS, signal);
+
+    // The user may have connected manually, cancelled or reset in the meantime
+    if (this.fastboot !== fastboot || this.state.state !== 'WAITING_FASTBOOT' || signal.aborted) {
+      return;
+    }
+
+    if (!found) {
+      this.log('Device did not reappear in fastboot mode, waiting for manual connection', 'warn');
+      this.update({ fastbootWait: 'timed-out' });
+      return;
+    }
+
+    this.log('Fastboot device detected');
+    await this.connectFastboot();
+  }
+
+  private async connectFastboot(): Promise<void> {
+    this.checkpoint(() => this.connectFastboot());
+    this.transition('FASTBOOT_CONNECTING', { fastbootWait: null });
+    this.log('Connecting to device in fastboot mode...');
+
+    const signal = this.cancellable();
+    let slotInfo: SlotInfo;
+    try {
+      await this.fastboot.connect(signal);
+
+      if (!this.fastboot.isConnected()) {
+        throw new Error('Failed to establish fastboot connection');
+      }
+
+      await this.readDiagnostics();
+
+      // Check if bootloader is unlocked
+      const unlocked = await this.fastboot.isBootloaderUnlocked();
+      if (!unlocked) {
+        const locked = new BootloaderLockedError();
+        this.fail(locked.message, locked);
+        return;
+      }
+
+      this.log('Fastboot connection established');
+      this.log('Bootloader is unlocked', 'info', { unlocked });
+
+      slotInfo = await this.fastboot.getSlotInfo();
+      // Last chance to back out: the flash starts right after
+      signal.throwIfAborted();
+      this.log('Read slot variables', 'debug', { ...slotInfo });
+      if (slotInfo.slotCount >= 2 && slotInfo.currentSlot) {
+        this.log(`Active slot: ${slotInfo.currentSlot} (${slotInfo.slotCount} slots)`);
+      } else {
+        this.log('Device does not report A/B slots, flashing the bare partition');
+      }
+      this.transition('FASTBOOT_CONNECTED', { slotInfo });
+    } catch (err) {
+      if (signal.aborted) {
+        await this.fastboot.disconnect();
+        this.leaveFastboot();
+      } else if (err instanceof UserCancelledError) {
+        this.transition('WAITING_FASTBOOT');
+        this.log('Device selection cancelled');
+      } else {
+        this.fail(`Fastboot connection failed: ${errorMessage(err)}`, err);
+      }
+      return;
+    }
+
+    // Automatically start flashing
+    await this.flashImage(slotInfo);
+  }
+
+  // Best effort: some bootloaders reject getvar:all, and the flash can go ahead without it
+  private async readDiagnostics(): Promise<void> {
+    try {
+      const fastbootDiagnostics = await this.fastboot.getDiagnostics();
+      this.log(
+        `Read ${Object.keys(fastbootDiagnostics.variables).length} bootloader variables`,
+        'debug',
+        { variables: fastbootDiagnostics.variables },
+      );
+      this.update({ fastbootDiagnostics });
+    } catch (err) {
+      this.log(`Could not read bootloader variables: ${errorMessage(err)}`, 'warn');
+    }
+  }
+
+  private async flashImage(slotInfo: SlotInfo): Promise<void> {
+    const { imageBlob, deviceProfile, flashMode, slotTarget, fastbootDiagnostics } = this.state;
+    if (!imageBlob || !deviceProfile) return;
+
+    const partitions = this.fastboot.resolvePartitions(
+      slotInfo,
+      slotTarget,
+      deviceProfile.partition,
+    );
+
+    if (fastbootDiagnostics) {
+      const preflightFindings = checkFlashPreconditions(
+        fastbootDiagnostics,
+        partitions,
+        imageBlob.size,
+      );
+      this.update({ preflightFindings });
+      const blockers = preflightFindings.filter(f => f.severity === 'blocker');
+      for (const finding of preflightFindings) {
+        if (finding.severity === 'warning') this.log(finding.message, 'warn');
+      }
+      if (blockers.length > 0) {
+        const blocked = new PreflightError(
+          `Pre-flight check failed: ${blockers.map(f => f.message).join('; ')}`,
+        );
+        this.fail(blocked.message, blocked);
+        return;
+      }
+    }
+
+    this.transition('FLASHING', {
+      flashProgress: { action: 'preparing', partition: partitions[0], progress: 0 },
+    });
+    this.log(
+      flashMode === 'restore'
+        ? `Flashing stock image to ${partitions.join(', ')}...`
+        : `Flashing ${partitions.join(', ')}...`,
+    );
+
+    // WebUSB reports an unplug before the pending transfer fails, so log it as it happens
+    let disconnected = false;
+    const unwatch = this.fastboot.watchDisconnect(() => {
+      disconnected = true;
+      this.log('USB device disconnected during the flash', 'error');
+    });
+    try {
+      await this.fastboot.flashPartitions(imageBlob, partitions, (progress: FlashProgress) => {
+        this.update({ flashProgress: progress });
+      });
+
+      this.flashInterrupted = false;
+      this.log('Flash complete!');
+      this.transition('FLASH_COMPLETE', { flashProgress: null });
+    } catch (err) {
+      if (disconnected || err instanceof TransferInterruptedError) {
+        this.interruptFlash(err);
+      } else {
+        this.fail(`Flash failed: ${errorMessage(err)}`, err);
+      }
+      return;
+    } finally {
+      unwatch();
+    }
+
+    // Automatically reboot
+    await this.rebootSystem();
+  }
+
+  // The write stopped partway: the partition may be corrupt, so the device must
+  // not be restarted until it has been flashed again
+  private interruptFlash(err: unknown): void {
+    this.flashInterrupted = true;
+    this.log(
+      `Flash interrupted: ${errorMessage(err)}`,
+      'error',
+      err instanceof Error ? { stack: err.stack } : undefined,
+    );
+    const partition = this.state.flashProgress?.partition ?? 'The partition';
+    this.log(
+      `${partition} may be incomplete. Keep the device in fastboot mode and flash again.`,
+      'warn',
+    );
+    this.transition('FLASH_INTERRUPTED');
+  }
+
+  /**
+   * Flash again after an interrupted write, once the device is back in fastboot
+   * mode. Switching to the other image downloads it from the matched release
+   * and checks its checksum and contents before anything is written.
+   */
+  private async recoverFlash(mode: FlashMode): Promise<void> {
+    const { deviceProfile: profile, matchedRelease: release } = this.state;
+    if (this.state.state !== 'FLASH_INTERRUPTED' || !profile) return;
+    this.update({ error: null, failure: null });
+
+    if (mode !== this.state.flashMode) {
+      const label = mode === 'restore' ? 'stock' : 'patched';
+      const asset = release ? this.deps.releases.getImageAsset(release, profile, mode) : null;
+      if (!release || !asset) {
+        const missing = new IncompatibleError(`The release has no ${label} image to flash`);
+        this.fail(missing.message, missing);
+        return;
+      }
+
+      this.log(`Downloading ${asset.name} to flash instead...`, 'info', { asset: asset.name });
+      let blob: Blob;
+      let imageChecksum: ImageChecksum;
+      try {
+        ({ blob } = await this.fetchAsset(release.tag_name, asset, progress =>
+          this.update({ downloadProgress: progress }),
+        ));
+        this.update({ downloadProgress: null });
+
+        const sha256 = await sha256Hex(blob);
+        const expected = await this.fetchExpectedChecksum(release, asset.name);
+        if (expected !== null && expected !== sha256) {
+          await this.evictImage(release, asset);
+          const mismatch = new ChecksumMismatchError();
+          this.fail(mismatch.message, mismatch);
+          return;
+        }
+        imageChecksum = { sha256, verified: expected !== null };
+      } catch (err) {
+        this.fail(`Could not download the ${label} image: ${errorMessage(err)}`, err);
+        return;
+      }
+
+      try {
+        const bootImageInfo = await inspectBootImage(blob, profile.partition);
+        const patched = bootImageInfo.magiskPatched;
+        if (patched !== null && patched !== (mode === 'patch')) {
+          await this.evictImage(release, asset);
+          const wrongImage = new IncompatibleError(
+            `Expected a ${label} image, but the downloaded image is ${patched ? 'Magisk-patched' : 'stock'}`,
+          );
+          this.fail(wrongImage.message, wrongImage);
+          return;
+        }
+
+        this.update({
+          flashMode: mode,
+          imageBlob: blob,
+          imageSource: 'release',
+          imageName: asset.name,
+          imageChecksum,
+          bootImageInfo,
+        });
+        this.log(imageChecksum.verified ? 'Checksum verified' : `Downloaded ${asset.name}`);
+      } catch (err) {
+        await this.evictImage(release, asset);
+        this.fail(`Invalid ${profile.partition} image: ${errorMessage(err)}`, err);
+        return;
+      }
+    }
+
+    // Start from a fresh fastboot connection: the old one died with the transfer
+    await this.fastboot.disconnect();
+    this.fastboot = this.deps.createFastboot();
+    this.log('Reconnect the device in fastboot mode to flash again');
+    this.transition('WAITING_FASTBOOT', { flashProgress: null, fastbootDiagnostics: null });
+    await this.waitForFastboot();
+  }
+
+  private async rebootSystem(): Promise<void> {
+    this.transition('REBOOTING_SYSTEM');
+    this.log('Rebooting to system...');
+
+    try {
+      await this.fastboot.reboot();
+      this.log('Device is rebooting');
+    } catch {
+      // Reboot command might not return properly; verification tells whether it booted
+      this.log('Reboot command sent');
+    }
+
+    await this.verifyBoot();
+  }
+
+  // Check over ADB that the device booted the same firmware, and whether it is rooted
+  private async verifyBoot(): Promise<void> {
+    // The partition is written by now: a retry checks the boot again, never re-flashes
+    this.checkpoint(() => this.verifyBoot(), 'REBOOTING_SYSTEM');
+    this.transition('VERIFYING_BOOT');
+    this.log('Waiting for the device to boot...');
+
+    try {
+      if (!(await this.adb.waitForDevice(BOOT_WAIT_TIMEOUT_MS))) {
+        this.log('Device did not come back over ADB', 'warn');
+        this.finishVerification({ outcome: 'did-not-boot', firmwareVersion: null, magisk: null });
+        return;
+      }
+
+      await this.adb.reconnect();
+      this.log('ADB connection re-established');
+
+      if (!(await this.adb.waitForBootCompleted(BOOT_COMPLETED_TIMEOUT_MS))) {
+        this.log('Device did not finish booting', 'warn');
+        this.finishVerification({ outcome: 'did-not-boot', firmwareVersion: null, magisk: null });
+        return;
+      }
+      this.log('Boot completed');
+
+      const { firmwareVersion } = await this.adb.getDeviceInfo();
+      if (firmwareVersion !== this.state.deviceInfo?.firmwareVersion) {
+        this.log(`Firmware changed to ${firmwareVersion}`, 'warn');
+        this.finishVerification({ outcome: 'firmware-changed', firmwareVersion, magisk: null });
+        return;
+      }
+
+      // Nothing switches slots, so the device booted the untouched active one
+      const slotInfo = this.state.slotInfo;
+      if (
+        this.state.slotTarget === 'inactive' &&
+        slotInfo &&
+        slotInfo.slotCount >= 2 &&
+        slotInfo.currentSlot
+      ) {
+        this.log(`Booted slot ${slotInfo.currentSlot}; the flashed inactive slot was not booted`);
+        this.finishVerification({ outcome: 'inactive-slot', firmwareVersion, magisk: null });
+        return;
+      }
+
+      const magisk = await this.adb.getMagiskStatus();
+      this.log(
+        `Magisk daemon ${magisk.daemonRunning ? 'running' : 'not running'}, su ${magisk.suAvailable ? 'available' : 'not found'}`,
+        'info',
+        { magisk },
+      );
+      if (magisk.version) {
+        this.log(`Magisk version: ${magisk.version}`);
+      }
+
+      const rooted = magisk.daemonRunning && magisk.suAvailable;
+      this.finishVerification({
+        outcome: rooted ? 'rooted' : 'not-rooted',
+        firmwareVersion,
+        magisk,
+      });
+    } catch (err) {
+      this.fail(`Post-flash verification failed: ${errorMessage(err)}`, err);
+    }
+  }
+
+  private finishVerification(bootVerification: BootVerification): void {
+    const restore = this.state.flashMode === 'restore';
+    const expected: BootOutcome = restore ? 'not-rooted' : 'rooted';
+
+    if (bootVerification.outcome === 'inactive-slot') {
+      this.transition(restore ? 'RESTORE_SUCCESS' : 'SUCCESS', { bootVerification });
+    } else if (bootVerification.outcome === expected) {
+      this.log(restore ? 'Verified: device booted without root' : 'Verified: device booted rooted');
+      this.transition(restore ? 'RESTORE_SUCCESS' : 'SUCCESS', { bootVerification });
+    } else {
+      this.log(`Verification failed: ${bootVerification.outcome}`, 'warn');
+      this.transition('VERIFICATION_FAILED', { bootVerification });
+    }
+  }
+
+  /**
+   * Install the Magisk app over ADB once the device has booted rooted. The APK
+   * is the given file, the one the image was patched with, or the release
+   * matching the running daemon. An app at least as new as the daemon is left
+   * alone. Failures keep the flash result; the app can still be installed by hand.
+   */
+  private async installMagiskApp(apk?: File): Promise<void> {
+    const magisk = this.state.bootVerification?.magisk;
+    if (!magisk) return;
+
+    let install: MagiskAppInstall = {
+      status: 'installing',
+      progress: 0,
+      versionCode: null,
+      error: null,
+    };
+    const report = (patch: Partial<MagiskAppInstall>) => {
+      install = { ...install, ...patch };
+      this.update({ magiskAppInstall: install });
+    };
+    this.transition('INSTALLING_MAGISK_APP', { magiskAppInstall: install });
+
+    const signal = this.cancellable();
+    try {
+      const installed = await this.adb.getMagiskAppVersionCode();
+      if (
+        !apk &&
+        installed !== null &&
+        magisk.versionCode !== null &&
+        installed >= magisk.versionCode
+      ) {
+        this.log(`Magisk app ${installed} is already installed`);
+        report({ status: 'up-to-date', versionCode: installed });
+        this.transition('SUCCESS');
+        return;
+      }
+
+      let blob: Blob;
+      if (apk) {
+        this.log(`Using Magisk APK: ${apk.name}`);
+        blob = apk;
+      } else if (this.magiskApk) {
+        this.log('Using the Magisk APK the image was patched with');
+        blob = this.magiskApk;
+      } else {
+        report({ status: 'downloading' });
+        blob = await this.fetchMagiskApk(magiskReleaseTag(magisk.version), signal);
+      }
+      signal.throwIfAborted();
+
+      this.log(
+        installed === null
+          ? 'Installing the Magisk app...'
+          : `Upgrading the Magisk app from ${installed}...`,
+      );
+      report({ status: 'pushing' });
+      await this.adb.installApk(blob, fraction =>
+        report(fraction < 1 ? { progress: fraction } : { status: 'installing', progress: 1 }),
+      );
+
+      const versionCode = await this.adb.getMagiskAppVersionCode();
+      if (versionCode === null) {
+        throw new Error('the package manager does not list the app after installing');
+      }
+      this.log(`Magisk app ${versionCode} installed`);
+      report({ status: 'installed', versionCode });
+      this.transition('SUCCESS');
+    } catch (err) {
+      if (signal.aborted) {
+        this.log('Magisk app install cancelled');
+        this.transition('SUCCESS', { magiskAppInstall: null, downloadProgress: null });
+        return;
+      }
+      const message = errorMessage(err);
+      this.log(
+        `Magisk app install failed: ${message}`,
+        'warn',
+        err instanceof Error ? { stack: err.stack } : undefined,
+      );
+      this.update({ downloadProgress: null });
+      report({ status: 'failed', error: message });
+      this.transition('SUCCESS');
+    }
+  }
+}
@@ -0,0 +1,87 @@
+import type { FlashState } from '../types';
+
+/**
+ * Allowed transitions of the flash flow. ERROR is reachable from every state
+ * and reset() returns to IDLE from anywhere, so neither is listed here.
+ */
+export const TRANSITIONS: Record<FlashState, readonly FlashState[]> = {
+  IDLE: ['ADB_CONNECTING', 'BROWSER_UNSUPPORTED'],
+  BROWSER_UNSUPPORTED: [],
+  WAITING_ADB_CONNECT: ['ADB_CONNECTING', 'BROWSER_UNSUPPORTED'],
+  ADB_CONNECTING: ['ADB_CONNECTED', 'WAITING_ADB_CONNECT'],
+  ADB_CONNECTED: ['DETECTING_FIRMWARE'],
+  DETECTING_FIRMWARE: ['FIRMWARE_DETECTED'],
+  FIRMWARE_DETECTED: ['FETCHING_RELEASES'],
+  FETCHING_RELEASES: ['RELEASE_NOT_FOUND', 'RELEASE_MATCHED'],
+  RELEASE_NOT_FOUND: ['BROWSING_RELEASES', 'DOWNLOAD_COMPLETE', 'EXTRACTING_OTA'],
+  RELEASE_MATCHED: [
+    'DOWNLOADING_IMAGE',
+    'BROWSING_RELEASES',
+    'DOWNLOAD_COMPLETE',
+    'PATCHING_ON_DEVICE',
+    'EXTRACTING_OTA',
+  ],
+  BROWSING_RELEASES: ['RELEASE_MATCHED', 'RELEASE_NOT_FOUND'],
+  DOWNLOADING_IMAGE: ['DOWNLOAD_COMPLETE', 'RELEASE_MATCHED'],
+  DOWNLOAD_COMPLETE: ['VERIFYING_IMAGE', 'PATCHING_ON_DEVICE'],
+  PATCHING_ON_DEVICE: ['DOWNLOAD_COMPLETE', 'RELEASE_MATCHED'],
+  EXTRACTING_OTA: ['DOWNLOAD_COMPLETE', 'RELEASE_MATCHED', 'RELEASE_NOT_FOUND'],
+  VERIFYING_IMAGE: ['CONFIRMING_FLASH', 'CONFIRMING_RESTORE'],
+  CONFIRMING_FLASH: ['REBOOTING_BOOTLOADER'],
+  CONFIRMING_RESTORE: ['REBOOTING_BOOTLOADER'],
+  REBOOTING_BOOTLOADER: ['WAITING_FASTBOOT'],
+  WAITING_FASTBOOT: [
+    'FASTBOOT_CONNECTING',
+    'CONFIRMING_FLASH',
+    'CONFIRMING_RESTORE',
+    'FLASH_INTERRUPTED',
+  ],
+  FASTBOOT_CONNECTING: [
+    'FASTBOOT_CONNECTED',
+    'WAITING_FASTBOOT',
+    'CONFIRMING_FLASH',
+    'CONFIRMING_RESTORE',
+    'FLASH_INTERRUPTED',
+  ],
+  FASTBOOT_CONNECTED: ['FLASHING', 'FLASH_INTERRUPTED'],
+  FLASHING: ['FLASH_COMPLETE', 'FLASH_INTERRUPTED'],
+  // The write stopped partway; the device is still in fastboot mode
+  FLASH_INTERRUPTED: ['WAITING_FASTBOOT'],
+  FLASH_COMPLETE: ['REBOOTING_SYSTEM'],
+  REBOOTING_SYSTEM: ['VERIFYING_BOOT'],
+  VERIFYING_BOOT: ['SUCCESS', 'RESTORE_SUCCESS', 'VERIFICATION_FAILED'],
+  SUCCESS: ['INSTALLING_MAGISK_APP'],
+  INSTALLING_MAGISK_APP: ['SUCCESS'],
+  RESTORE_SUCCESS: [],
+  VERIFICATION_FAILED: [],
+  ERROR: [],
+};
+
+/**
+ * States whose work can be abandoned, returning to where it started. Once the
+ * partition write begins, stopping could leave the device without a bootable image.
+ */
+export const CANCELLABLE_STATES: readonly FlashState[] = [
+  'ADB_CONNECTING',
+  'DOWNLOADING_IMAGE',
+  'EXTRACTING_OTA',
+  'PATCHING_ON_DEVICE',
+  'WAITING_FASTBOOT',
+  'FASTBOOT_CONNECTING',
+  'INSTALLING_MAGISK_APP',
+];
+
+/**
+ * States in which closing the tab or losing the USB connection can leave a
+ * partition half-written, so the page asks before unloading and keeps the screen on.
+ */
+export const CRITICAL_STATES: readonly FlashState[] = [
+  'FASTBOOT_CONNECTED',
+  'FLASHING',
+  'FLASH_COMPLETE',
+  'FLASH_INTERRUPTED',
+];
+
+export function canTransition(from: FlashState, to: FlashState): boolean {
+  return to === 'ERROR' || TRANSITIONS[from].includes(to);
+}
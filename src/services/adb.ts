@@ -1,7 +1,31 @@
 import { Adb, AdbDaemonTransport } from '@yume-chan/adb';
-import { AdbDaemonWebUsbDeviceManager } from '@yume-chan/adb-daemon-webusb';
+import { AdbDaemonWebUsbDevice, AdbDaemonWebUsbDeviceManager } from '@yume-chan/adb-daemon-webusb';
 import AdbWebCredentialStore from '@yume-chan/adb-credential-web';
-import type { DeviceInfo } from '../types';
+import { ReadableStream } from '@yume-chan/stream-extra';
+import type { DeviceInfo, DevicePreflightInfo, MagiskStatus } from '../types';
+import { parseBatteryStatus } from '../utils/preflight';
+import { AuthorizationError, FlashError, UsbBusyError, UserCancelledError } from '../utils/errors';
+
+// How often to poll while waiting for the device to come back or finish booting
+const POLL_INTERVAL_MS = 2000;
+
+// How long the user gets to accept the "Allow USB debugging?" prompt. A rejected
+// prompt leaves the handshake pending rather than failing it.
+const AUTH_TIMEOUT_MS = 60 * 1000;
+
+// Package name of the Magisk app. A hidden (repackaged) app has a random
+// name and is not detected, so it would be installed alongside
+const MAGISK_PACKAGE = 'com.topjohnwu.magisk';
+
+// APKs are staged here for pm install, which cannot read the sync protocol's stream
+const APK_STAGING_PATH = '/data/local/tmp/oneplus-flasher.apk';
+
+// The none protocol does not report exit codes, so commands echo theirs after this marker
+const EXIT_MARKER = '__oneplus_flasher_exit__';
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
 
 export class AdbService {
   private adb: Adb | null = null;
@@ -11,7 +35,7 @@ export class AdbService {
     return AdbDaemonWebUsbDeviceManager.BROWSER !== undefined;
   }
 
-  async connect(): Promise<void> {
+  async connect(signal?: AbortSignal): Promise<void> {
     const manager = AdbDaemonWebUsbDeviceManager.BROWSER;
     if (!manager) {
       throw new Error('WebUSB is not supported in this browser');
@@ -19,17 +43,91 @@ export class AdbService {
 
     const device = await manager.requestDevice();
     if (!device) {
-      throw new Error('No device selected');
+      throw new UserCancelledError();
     }
 
-    const connection = await device.connect();
-    const transport = await AdbDaemonTransport.authenticate({
-      serial: device.serial,
-      connection,
-      credentialStore: this.credentialStore,
-    });
+    await this.connectDevice(device, signal);
+  }
+
+  /**
+   * Reconnect to a device this browser was already granted access to,
+   * without showing the WebUSB chooser
+   */
+  async reconnect(signal?: AbortSignal): Promise<void> {
+    const [device] = (await AdbDaemonWebUsbDeviceManager.BROWSER?.getDevices()) ?? [];
+    if (!device) {
+      throw new Error('Device not found');
+    }
+
+    await this.connectDevice(device, signal);
+  }
+
+  /**
+   * Wait for a previously granted device to show up over ADB again.
+   * Resolves false if it does not appear within the timeout.
+   */
+  async waitForDevice(timeoutMs: number): Promise<boolean> {
+    const manager = AdbDaemonWebUsbDeviceManager.BROWSER;
+    if (!manager) return false;
+
+    const deadline = Date.now() + timeoutMs;
+    while (Date.now() < deadline) {
+      if ((await manager.getDevices()).length > 0) return true;
+      await sleep(POLL_INTERVAL_MS);
+    }
+    return false;
+  }
+
+  private async connectDevice(device: AdbDaemonWebUsbDevice, signal?: AbortSignal): Promise<void> {
+    signal?.throwIfAborted();
+    let connection;
+    try {
+      connection = await device.connect();
+    } catch (err) {
+      if (err instanceof AdbDaemonWebUsbDevice.DeviceBusyError) {
+        throw new UsbBusyError(undefined, { cause: err });
+      }
+      throw err;
+    }
+    // An abort while the interface was being claimed fires no event later on
+    if (signal?.aborted) {
+      await device.raw.close().catch(() => undefined);
+      signal.throwIfAborted();
+    }
 
-    this.adb = new Adb(transport);
+    // The handshake waits on the user, so it also ends on the timeout or an abort
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let onAbort: (() => void) | undefined;
+    const interrupted = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new AuthorizationError()), AUTH_TIMEOUT_MS);
+      onAbort = () => reject(signal?.reason);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+    try {
+      const transport = await Promise.race([
+        AdbDaemonTransport.authenticate({
+          serial: device.serial,
+          connection,
+          credentialStore: this.credentialStore,
+        }),
+        interrupted,
+      ]);
+      this.adb = new Adb(transport);
+    } catch (err) {
+      // Release the interface so the device can be claimed again, here or by adb
+      await device.raw.close().catch(() => undefined);
+      if (err instanceof FlashError || signal?.aborted) throw err;
+      // The device drops the connection when the prompt is dismissed
+      throw new AuthorizationError(
+        `USB debugging authorization failed: ${(err as Error).message}`,
+        {
+          cause: err,
+        },
+      );
+    } finally {
+      clearTimeout(timer);
+      if (onAbort) signal?.removeEventListener('abort', onAbort);
+    }
   }
 
   async getProperty(propName: string): Promise<string> {
@@ -44,16 +142,220 @@ export class AdbService {
       throw new Error('Not connected to device');
     }
 
-    const [model, firmwareVersion] = await Promise.all([
+    const [model, firmwareVersion, slotSuffix, fingerprint] = await Promise.all([
       this.getProperty('ro.product.model'),
       this.getProperty('ro.build.display.id'),
+      this.getProperty('ro.boot.slot_suffix'),
+      this.getProperty('ro.build.fingerprint'),
     ]);
 
     return {
       model,
       firmwareVersion,
       serial: this.adb.serial,
+      activeSlot: slotSuffix.replace(/^_/, '') || undefined,
+      fingerprint: fingerprint || undefined,
+    };
+  }
+
+  async shell(command: string): Promise<string> {
+    if (!this.adb) {
+      throw new Error('Not connected to device');
+    }
+    return await this.adb.subprocess.noneProtocol.spawnWaitText(command);
+  }
+
+  /**
+   * Run a shell command, passing each line of its combined stdout and stderr
+   * to onLine as it arrives. Resolves with the command's exit code; aborting
+   * the signal kills the command and rejects.
+   */
+  async shellStreaming(
+    command: string,
+    onLine: (line: string) => void,
+    signal?: AbortSignal,
+  ): Promise<number> {
+    if (!this.adb) {
+      throw new Error('Not connected to device');
+    }
+    signal?.throwIfAborted();
+
+    const process = await this.adb.subprocess.noneProtocol.spawn(
+      `(${command}) 2>&1; echo ${EXIT_MARKER}$?`,
+    );
+    // Closing the stream hangs up the shell, which stops the command
+    const kill = () => {
+      Promise.resolve(process.kill()).catch(() => undefined);
     };
+    signal?.addEventListener('abort', kill, { once: true });
+
+    const reader = process.output.getReader();
+    const decoder = new TextDecoder();
+    let exitCode = -1;
+    let pending = '';
+
+    const emit = (line: string) => {
+      if (line.startsWith(EXIT_MARKER)) {
+        exitCode = parseInt(line.slice(EXIT_MARKER.length), 10);
+      } else {
+        onLine(line);
+      }
+    };
+
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        pending += decoder.decode(value, { stream: true });
+        const lines = pending.split('\n');
+        pending = lines.pop() ?? '';
+        lines.forEach(emit);
+      }
+      pending += decoder.decode();
+      if (pending) emit(pending);
+
+      await process.exited;
+    } finally {
+      signal?.removeEventListener('abort', kill);
+      signal?.throwIfAborted();
+    }
+    return exitCode;
+  }
+
+  async push(
+    path: string,
+    blob: Blob,
+    permission = 0o644,
+    onProgress?: (fraction: number) => void,
+  ): Promise<void> {
+    if (!this.adb) {
+      throw new Error('Not connected to device');
+    }
+
+    // The library's own stream class, fed from the blob and counting bytes as they go out
+    const reader = blob.stream().getReader();
+    let sent = 0;
+    const file = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        const { done, value } = await reader.read();
+        if (done) {
+          controller.close();
+          return;
+        }
+        sent += value.length;
+        onProgress?.(blob.size > 0 ? sent / blob.size : 1);
+        controller.enqueue(value);
+      },
+      cancel: reason => reader.cancel(reason),
+    });
+
+    const sync = await this.adb.sync();
+    try {
+      await sync.write({ filename: path, file, permission });
+    } finally {
+      await sync.dispose();
+    }
+  }
+
+  async pull(path: string): Promise<Blob> {
+    if (!this.adb) {
+      throw new Error('Not connected to device');
+    }
+
+    const sync = await this.adb.sync();
+    try {
+      const reader = sync.read(path).getReader();
+      const chunks: BlobPart[] = [];
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        chunks.push(value as BlobPart);
+      }
+      return new Blob(chunks);
+    } finally {
+      await sync.dispose();
+    }
+  }
+
+  /**
+   * Wait for sys.boot_completed. adbd can come up before the system has
+   * finished booting, and reads may fail while it settles.
+   */
+  async waitForBootCompleted(timeoutMs: number): Promise<boolean> {
+    const deadline = Date.now() + timeoutMs;
+    while (Date.now() < deadline) {
+      try {
+        if ((await this.getProperty('sys.boot_completed')) === '1') return true;
+      } catch {
+        // Not ready yet
+      }
+      await sleep(POLL_INTERVAL_MS);
+    }
+    return false;
+  }
+
+  async getPreflightInfo(): Promise<DevicePreflightInfo> {
+    const [flashLocked, verifiedBootState, securityPatch, slotSuffix, battery] = await Promise.all([
+      this.getProperty('ro.boot.flash.locked'),
+      this.getProperty('ro.boot.verifiedbootstate'),
+      this.getProperty('ro.build.version.security_patch'),
+      this.getProperty('ro.boot.slot_suffix'),
+      this.shell('dumpsys battery'),
+    ]);
+    const { level, charging } = parseBatteryStatus(battery);
+
+    return {
+      flashLocked: flashLocked || null,
+      verifiedBootState: verifiedBootState || null,
+      securityPatch: securityPatch || null,
+      activeSlot: slotSuffix.replace(/^_/, '') || null,
+      batteryLevel: level,
+      charging,
+    };
+  }
+
+  async getMagiskStatus(): Promise<MagiskStatus> {
+    const [daemon, su, version, versionCode] = await Promise.all([
+      this.shell('pidof magiskd'),
+      this.shell('command -v su'),
+      this.shell('magisk -v 2>/dev/null'),
+      this.shell('magisk -V 2>/dev/null'),
+    ]);
+
+    return {
+      daemonRunning: daemon.trim().length > 0,
+      suAvailable: su.trim().length > 0,
+      version: version.trim() || null,
+      versionCode: parseInt(versionCode.trim(), 10) || null,
+    };
+  }
+
+  // versionCode of the installed Magisk app, or null when it is not installed
+  async getMagiskAppVersionCode(): Promise<number | null> {
+    const output = await this.shell(`pm list packages --show-versioncode ${MAGISK_PACKAGE}`);
+    for (const line of output.split('\n')) {
+      const match = /^package:(\S+) versionCode:(\d+)/.exec(line.trim());
+      if (match && match[1] === MAGISK_PACKAGE) {
+        return parseInt(match[2], 10);
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Install (or upgrade, keeping its data) an APK. It is pushed to a staging
+   * path first, then handed to the package manager.
+   */
+  async installApk(apk: Blob, onProgress?: (fraction: number) => void): Promise<void> {
+    await this.push(APK_STAGING_PATH, apk, 0o644, onProgress);
+    try {
+      const output = (await this.shell(`pm install -r ${APK_STAGING_PATH} 2>&1`)).trim();
+      if (!output.includes('Success')) {
+        throw new Error(output || 'pm install failed');
+      }
+    } finally {
+      await this.shell(`rm -f ${APK_STAGING_PATH}`).catch(() => undefined);
+    }
   }
 
   async rebootToBootloader(): Promise<void> {
@@ -0,0 +1,128 @@
+import type { CachedImage, GitHubAsset, GitHubRelease } from '../types';
+
+const DB_NAME = 'oneplus-flasher';
+const DB_VERSION = 1;
+const IMAGES_STORE = 'images';
+const RELEASES_STORE = 'releases';
+
+interface CachedImageRecord extends CachedImage {
+  blob: Blob;
+}
+
+// One page of a paginated release list, kept so each page can be requested conditionally
+export interface ReleasePage {
+  url: string;
+  etag: string | null;
+  count: number; // releases the page contributed, in list order
+  next: string | null; // URL of the following page
+}
+
+interface CachedReleasesRecord {
+  key: string;
+  releases: GitHubRelease[];
+  cachedAt: number;
+  pages?: ReleasePage[]; // missing on lists persisted before per-page ETags
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export class CacheService {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  static imageKey(tag: string, assetName: string, size: number): string {
+    return `${tag}/${assetName}/${size}`;
+  }
+
+  private openDb(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(IMAGES_STORE)) {
+            db.createObjectStore(IMAGES_STORE, { keyPath: 'key' });
+          }
+          if (!db.objectStoreNames.contains(RELEASES_STORE)) {
+            db.createObjectStore(RELEASES_STORE, { keyPath: 'key' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Let a later call retry if opening failed
+      this.dbPromise.catch(() => {
+        this.dbPromise = null;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async store(name: string, mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.openDb();
+    return db.transaction(name, mode).objectStore(name);
+  }
+
+  async getImage(tag: string, asset: GitHubAsset): Promise<Blob | null> {
+    const store = await this.store(IMAGES_STORE, 'readonly');
+    const record = await requestToPromise<CachedImageRecord | undefined>(
+      store.get(CacheService.imageKey(tag, asset.name, asset.size)),
+    );
+    return record?.blob ?? null;
+  }
+
+  async putImage(tag: string, asset: GitHubAsset, blob: Blob): Promise<void> {
+    const record: CachedImageRecord = {
+      key: CacheService.imageKey(tag, asset.name, asset.size),
+      tag,
+      assetName: asset.name,
+      size: blob.size,
+      cachedAt: Date.now(),
+      blob,
+    };
+    const store = await this.store(IMAGES_STORE, 'readwrite');
+    await requestToPromise(store.put(record));
+  }
+
+  async listImages(): Promise<CachedImage[]> {
+    const store = await this.store(IMAGES_STORE, 'readonly');
+    const records = await requestToPromise<CachedImageRecord[]>(store.getAll());
+    return records
+      .map(({ key, tag, assetName, size, cachedAt }) => ({ key, tag, assetName, size, cachedAt }))
+      .sort((a, b) => b.cachedAt - a.cachedAt);
+  }
+
+  async deleteImage(key: string): Promise<void> {
+    const store = await this.store(IMAGES_STORE, 'readwrite');
+    await requestToPromise(store.delete(key));
+  }
+
+  async removeImage(tag: string, asset: GitHubAsset): Promise<void> {
+    await this.deleteImage(CacheService.imageKey(tag, asset.name, asset.size));
+  }
+
+  /**
+   * Release lists are keyed by repository ("owner/name")
+   */
+  async getReleases(repo: string): Promise<Required<Omit<CachedReleasesRecord, 'key'>> | null> {
+    const store = await this.store(RELEASES_STORE, 'readonly');
+    const record = await requestToPromise<CachedReleasesRecord | undefined>(store.get(repo));
+    return record
+      ? { releases: record.releases, cachedAt: record.cachedAt, pages: record.pages ?? [] }
+      : null;
+  }
+
+  async putReleases(repo: string, releases: GitHubRelease[], pages: ReleasePage[]): Promise<void> {
+    const record: CachedReleasesRecord = { key: repo, releases, cachedAt: Date.now(), pages };
+    const store = await this.store(RELEASES_STORE, 'readwrite');
+    await requestToPromise(store.put(record));
+  }
+}
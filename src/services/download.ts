@@ -1,61 +1,217 @@
-import type { DownloadProgress } from '../types';
+import type { DownloadProgress, DownloadSource } from '../types';
+import { NetworkError, TransferInterruptedError } from '../utils/errors';
 
-// List of CORS proxies to try in order
-const CORS_PROXIES = [
-  (url: string) => `https://api.codetabs.com/v1/proxy?quest=${encodeURIComponent(url)}`,
+const SOURCES_STORAGE_KEY = 'oneplus-flasher.download-sources';
+
+// Attempts per source, and the base delay doubled after each failed attempt
+const MAX_ATTEMPTS = 4;
+const BACKOFF_BASE_MS = 1000;
+
+// Received chunks are folded into a Blob every few MB so the browser can
+// page them out instead of holding the whole image as Uint8Arrays
+const FLUSH_THRESHOLD = 8 * 1024 * 1024;
+
+/**
+ * Built-in sources, tried in order. `{url}` is replaced with the encoded
+ * asset URL and `{rawUrl}` with the asset URL as-is.
+ */
+export const DEFAULT_DOWNLOAD_SOURCES: DownloadSource[] = [
+  { name: 'GitHub (direct)', urlTemplate: '{rawUrl}', enabled: true, builtin: true },
+  {
+    name: 'codetabs proxy',
+    urlTemplate: 'https://api.codetabs.com/v1/proxy?quest={url}',
+    enabled: true,
+    builtin: true,
+  },
 ];
 
+export interface DownloadResult {
+  blob: Blob;
+  source: string; // name of the source that served the final bytes
+}
+
+export function loadDownloadSources(): DownloadSource[] {
+  try {
+    const stored = localStorage.getItem(SOURCES_STORAGE_KEY);
+    if (stored) {
+      const sources = JSON.parse(stored) as DownloadSource[];
+      if (Array.isArray(sources) && sources.length > 0) {
+        return sources;
+      }
+    }
+  } catch {
+    // Corrupt or unavailable storage: fall back to defaults
+  }
+  return DEFAULT_DOWNLOAD_SOURCES;
+}
+
+export function saveDownloadSources(sources: DownloadSource[]): void {
+  localStorage.setItem(SOURCES_STORAGE_KEY, JSON.stringify(sources));
+}
+
+export function resolveSourceUrl(source: DownloadSource, url: string): string {
+  return source.urlTemplate.replace('{url}', encodeURIComponent(url)).replace('{rawUrl}', url);
+}
+
+/**
+ * Accumulates downloaded bytes across attempts and sources so an
+ * interrupted transfer can resume with a Range request
+ */
+class DownloadBuffer {
+  private parts: Blob[] = [];
+  private pending: Uint8Array[] = [];
+  private pendingSize = 0;
+  loaded = 0;
+  total = 0;
+
+  append(chunk: Uint8Array): void {
+    this.pending.push(chunk);
+    this.pendingSize += chunk.length;
+    this.loaded += chunk.length;
+    if (this.pendingSize >= FLUSH_THRESHOLD) {
+      this.flush();
+    }
+  }
+
+  reset(): void {
+    this.parts = [];
+    this.pending = [];
+    this.pendingSize = 0;
+    this.loaded = 0;
+  }
+
+  toBlob(): Blob {
+    this.flush();
+    return new Blob(this.parts);
+  }
+
+  private flush(): void {
+    if (this.pending.length === 0) return;
+    this.parts.push(new Blob(this.pending as BlobPart[]));
+    this.pending = [];
+    this.pendingSize = 0;
+  }
+}
+
+/**
+ * Download an asset, falling back through the enabled sources. Aborting the
+ * signal stops at once, rejecting with its reason rather than retrying.
+ */
 export async function downloadAsset(
   url: string,
   onProgress?: (progress: DownloadProgress) => void,
-): Promise<Blob> {
+  signal?: AbortSignal,
+  sources: DownloadSource[] = loadDownloadSources(),
+): Promise<DownloadResult> {
+  const buffer = new DownloadBuffer();
   let lastError: Error | null = null;
 
-  for (const makeProxyUrl of CORS_PROXIES) {
-    const proxiedUrl = makeProxyUrl(url);
-    try {
-      const response = await fetch(proxiedUrl);
-      if (!response.ok) {
-        throw new Error(`${response.status}`);
+  for (const source of sources.filter(s => s.enabled)) {
+    const sourceUrl = resolveSourceUrl(source, url);
+
+    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+      if (attempt > 0) {
+        await sleep(BACKOFF_BASE_MS * 2 ** (attempt - 1), signal);
+      }
+      signal?.throwIfAborted();
+
+      const loadedBefore = buffer.loaded;
+      try {
+        await fetchInto(sourceUrl, buffer, source.name, onProgress, signal);
+        return { blob: buffer.toBlob(), source: source.name };
+      } catch (e) {
+        signal?.throwIfAborted();
+        lastError = e as Error;
+        // A source that fails before sending anything (CORS, DNS, 4xx) is
+        // unlikely to recover on retry, so move on to the next one
+        if (attempt === 0 && buffer.loaded === loadedBefore) break;
       }
-      return await downloadWithProgress(response, onProgress);
-    } catch (e) {
-      lastError = e as Error;
-      continue;
     }
   }
 
-  throw new Error(`Download failed: ${lastError?.message || 'All proxies failed'}`);
+  // Bytes already received mean the sources were reachable but kept dropping the transfer
+  const message = `Download failed: ${lastError?.message || 'All sources failed'}`;
+  throw buffer.loaded > 0
+    ? new TransferInterruptedError(message, { cause: lastError })
+    : new NetworkError(message, { cause: lastError });
 }
 
-async function downloadWithProgress(
-  response: Response,
+async function fetchInto(
+  url: string,
+  buffer: DownloadBuffer,
+  sourceName: string,
   onProgress?: (progress: DownloadProgress) => void,
-): Promise<Blob> {
-  const contentLength = response.headers.get('Content-Length');
-  const total = contentLength ? parseInt(contentLength, 10) : 0;
+  signal?: AbortSignal,
+): Promise<void> {
+  if (buffer.total > 0 && buffer.loaded >= buffer.total) return;
+
+  const headers: HeadersInit = buffer.loaded > 0 ? { Range: `bytes=${buffer.loaded}-` } : {};
+  const response = await fetch(url, { headers, signal });
+  if (!response.ok) {
+    throw new Error(`${sourceName}: ${response.status}`);
+  }
+
+  if (response.status === 206) {
+    const contentRange = response.headers.get('Content-Range');
+    const rangeMatch = contentRange?.match(/^bytes (\d+)-\d+\/(\d+|\*)$/);
+    if (!rangeMatch || parseInt(rangeMatch[1], 10) !== buffer.loaded) {
+      throw new Error(`${sourceName}: unexpected range ${contentRange}`);
+    }
+    if (rangeMatch[2] !== '*') {
+      buffer.total = parseInt(rangeMatch[2], 10);
+    }
+  } else {
+    // Full response (Range unsupported or ignored): start over
+    buffer.reset();
+    const contentLength = response.headers.get('Content-Length');
+    buffer.total = contentLength ? parseInt(contentLength, 10) : 0;
+  }
+
+  const report = () =>
+    onProgress?.({
+      loaded: buffer.loaded,
+      total: buffer.total,
+      percentage: buffer.total > 0 ? (buffer.loaded / buffer.total) * 100 : 0,
+      source: sourceName,
+    });
 
   if (!response.body) {
-    return await response.blob();
+    buffer.append(new Uint8Array(await response.arrayBuffer()));
+    report();
+    return;
   }
 
   const reader = response.body.getReader();
-  const chunks: Uint8Array[] = [];
-  let loaded = 0;
-
   while (true) {
     const { done, value } = await reader.read();
     if (done) break;
 
-    chunks.push(value);
-    loaded += value.length;
+    buffer.append(value);
+    report();
+  }
 
-    onProgress?.({
-      loaded,
-      total,
-      percentage: total > 0 ? (loaded / total) * 100 : 0,
-    });
+  if (buffer.total > 0 && buffer.loaded < buffer.total) {
+    throw new Error(
+      `${sourceName}: connection closed at ${buffer.loaded} of ${buffer.total} bytes`,
+    );
   }
+}
 
-  return new Blob(chunks as BlobPart[]);
+// Rejects with the abort reason as soon as the signal aborts
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const abort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason as Error);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', abort);
+      resolve();
+    }, ms);
+    if (signal?.aborted) {
+      abort();
+    } else {
+      signal?.addEventListener('abort', abort, { once: true });
+    }
+  });
 }
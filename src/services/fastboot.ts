@@ -1,9 +1,76 @@
+/// <reference types="w3c-web-usb" />
 import { FastbootDevice, setDebugLevel } from 'android-fastboot';
-import type { FlashProgress } from '../types';
+import type {
+  BootPartition,
+  FastbootDiagnostics,
+  FlashProgress,
+  SlotInfo,
+  SlotTarget,
+} from '../types';
+import { parseGetvarAll, summarizeFastbootVars } from '../utils/getvar';
+import {
+  TransferInterruptedError,
+  UsbBusyError,
+  UserCancelledError,
+  isDomError,
+} from '../utils/errors';
 
 // Enable debug logging
 setDebugLevel(1);
 
+// USB interface triple advertised by fastboot bootloaders
+const FASTBOOT_CLASS = 0xff;
+const FASTBOOT_SUBCLASS = 0x42;
+const FASTBOOT_PROTOCOL = 0x03;
+
+// How often to re-check granted devices while waiting, in case a connect event is missed
+const DEVICE_POLL_INTERVAL_MS = 1000;
+
+function isFastbootDevice(device: USBDevice): boolean {
+  return device.configurations.some(config =>
+    config.interfaces.some(iface =>
+      iface.alternates.some(
+        alt =>
+          alt.interfaceClass === FASTBOOT_CLASS &&
+          alt.interfaceSubclass === FASTBOOT_SUBCLASS &&
+          alt.interfaceProtocol === FASTBOOT_PROTOCOL,
+      ),
+    ),
+  );
+}
+
+// connect() only skips the WebUSB chooser when exactly one granted device is attached
+async function findGrantedFastbootDevice(): Promise<USBDevice | null> {
+  const devices = await navigator.usb.getDevices();
+  return devices.length === 1 && isFastbootDevice(devices[0]) ? devices[0] : null;
+}
+
+/**
+ * Resolve the partition names to write for a slot target.
+ * Non-A/B devices always get the bare partition name.
+ */
+export function resolveSlotPartitions(
+  slotInfo: SlotInfo,
+  target: SlotTarget,
+  partition: BootPartition,
+): string[] {
+  if (slotInfo.slotCount < 2 || !slotInfo.currentSlot) {
+    return [partition];
+  }
+
+  const active = slotInfo.currentSlot;
+  const inactive = active === 'a' ? 'b' : 'a';
+
+  switch (target) {
+    case 'active':
+      return [`${partition}_${active}`];
+    case 'inactive':
+      return [`${partition}_${inactive}`];
+    case 'both':
+      return [`${partition}_${active}`, `${partition}_${inactive}`];
+  }
+}
+
 export class FastbootService {
   private device: FastbootDevice;
 
@@ -11,20 +78,83 @@ export class FastbootService {
     this.device = new FastbootDevice();
   }
 
-  async connect(): Promise<void> {
-    await this.device.connect();
+  // FastbootDevice.connect() cannot be interrupted, so an abort during it is
+  // honoured once it returns, releasing the interface it claimed
+  async connect(signal?: AbortSignal): Promise<void> {
+    signal?.throwIfAborted();
+    try {
+      await this.device.connect();
+    } catch (err) {
+      // The chooser was dismissed, or claiming the interface failed
+      if (isDomError(err, 'NotFoundError')) {
+        throw new UserCancelledError(undefined, { cause: err });
+      }
+      if (isDomError(err, 'NetworkError')) {
+        throw new UsbBusyError(undefined, { cause: err });
+      }
+      throw err;
+    }
+    if (signal?.aborted) {
+      await this.disconnect();
+      signal.throwIfAborted();
+    }
+  }
+
+  // Release the USB interface, e.g. when the user backs out before flashing
+  async disconnect(): Promise<void> {
+    await this.device.device?.close().catch(() => undefined);
   }
 
   isConnected(): boolean {
     return this.device.isConnected;
   }
 
+  // Call onDisconnect when this device is unplugged; returns a function that stops watching
+  watchDisconnect(onDisconnect: () => void): () => void {
+    const listener = (event: USBConnectionEvent) => {
+      if (event.device === this.device.device) onDisconnect();
+    };
+    navigator.usb.addEventListener('disconnect', listener);
+    return () => navigator.usb.removeEventListener('disconnect', listener);
+  }
+
+  /**
+   * Wait for the device to re-enumerate in fastboot mode under a previously
+   * granted USB permission, so connect() can proceed without the chooser.
+   * Resolves false if it does not appear within the timeout or the wait is aborted.
+   */
+  async waitForDevice(timeoutMs: number, signal?: AbortSignal): Promise<boolean> {
+    if (await findGrantedFastbootDevice()) return true;
+
+    return new Promise(resolve => {
+      const check = async () => {
+        if (await findGrantedFastbootDevice()) finish(true);
+      };
+      const abort = () => finish(false);
+      const finish = (found: boolean) => {
+        clearInterval(poll);
+        clearTimeout(timeout);
+        navigator.usb.removeEventListener('connect', check);
+        signal?.removeEventListener('abort', abort);
+        resolve(found);
+      };
+
+      const poll = setInterval(check, DEVICE_POLL_INTERVAL_MS);
+      const timeout = setTimeout(() => finish(false), timeoutMs);
+      navigator.usb.addEventListener('connect', check);
+      signal?.addEventListener('abort', abort);
+      if (signal?.aborted) abort();
+    });
+  }
+
+  // Unknown variables read as null; transport errors propagate
   async getVariable(name: string): Promise<string | null> {
-    try {
-      return await this.device.getVariable(name);
-    } catch {
-      return null;
-    }
+    return await this.device.getVariable(name);
+  }
+
+  async getDiagnostics(): Promise<FastbootDiagnostics> {
+    const { text } = await this.device.runCommand('getvar:all');
+    return summarizeFastbootVars(parseGetvarAll(text));
   }
 
   async isBootloaderUnlocked(): Promise<boolean> {
@@ -32,17 +162,50 @@ export class FastbootService {
     return unlocked === 'yes';
   }
 
-  async flashInitBoot(
+  // One command at a time: runCommand() does not serialise, so concurrent
+  // getvars on the single endpoint can read each other's replies
+  async getSlotInfo(): Promise<SlotInfo> {
+    const currentSlot = await this.getVariable('current-slot');
+    const slotCount = await this.getVariable('slot-count');
+
+    return {
+      // Some bootloaders report the slot with its suffix underscore ("_a")
+      currentSlot: currentSlot ? currentSlot.replace(/^_/, '') : null,
+      slotCount: slotCount ? parseInt(slotCount, 10) || 0 : 0,
+    };
+  }
+
+  resolvePartitions(slotInfo: SlotInfo, target: SlotTarget, partition: BootPartition): string[] {
+    return resolveSlotPartitions(slotInfo, target, partition);
+  }
+
+  async flashPartitions(
     imageBlob: Blob,
+    partitions: string[],
     onProgress?: (progress: FlashProgress) => void,
   ): Promise<void> {
-    await this.device.flashBlob('init_boot', imageBlob, (progress: number) => {
-      onProgress?.({
-        action: 'flashing',
-        partition: 'init_boot',
-        progress,
-      });
-    });
+    for (const partition of partitions) {
+      try {
+        await this.device.flashBlob(partition, imageBlob, (progress: number) => {
+          onProgress?.({
+            action: 'flashing',
+            partition,
+            progress,
+          });
+        });
+      } catch (err) {
+        // USB failures surface as DOMExceptions; bootloader rejections keep their own error
+        if (err instanceof DOMException) {
+          throw new TransferInterruptedError(
+            `Writing ${partition} was interrupted: ${err.message}`,
+            {
+              cause: err,
+            },
+          );
+        }
+        throw err;
+      }
+    }
   }
 
   async reboot(): Promise<void> {
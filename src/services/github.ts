@@ -1,45 +1,315 @@
-import type { GitHubRelease, GitHubAsset } from '../types';
+import type {
+  GitHubRelease,
+  GitHubAsset,
+  FlashMode,
+  DeviceProfile,
+  NearbyRelease,
+  RateLimitInfo,
+} from '../types';
+import type { CacheService, ReleasePage } from './cache';
+import { versionsMatch, parseVersion, compareVersions } from '../utils/version';
+import { GitHubAuthError, HttpError, NetworkError, RateLimitError } from '../utils/errors';
 
-const REPO_OWNER = 'CruelKernel';
-const REPO_NAME = 'oneplus_kernel_patcher';
+// How long a persisted release list is used without asking GitHub again
+const RELEASES_TTL_MS = 10 * 60 * 1000;
+// GitHub's maximum page size for the releases endpoint
+const RELEASES_PER_PAGE = 100;
+
+// Source of the Magisk APK used for on-device patching
+const MAGISK_REPO = 'topjohnwu/Magisk';
+
+const TOKEN_STORAGE_KEY = 'oneplus-flasher.github-token';
+
+export function loadGitHubToken(): string | null {
+  try {
+    return localStorage.getItem(TOKEN_STORAGE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function saveGitHubToken(token: string | null): void {
+  if (token) {
+    localStorage.setItem(TOKEN_STORAGE_KEY, token);
+  } else {
+    localStorage.removeItem(TOKEN_STORAGE_KEY);
+  }
+}
+
+/**
+ * Extract the rel="next" URL from a GitHub Link header
+ */
+function parseNextLink(linkHeader: string | null): string | null {
+  if (!linkHeader) return null;
+  for (const part of linkHeader.split(',')) {
+    const match = part.match(/<([^>]+)>;\s*rel="next"/);
+    if (match) return match[1];
+  }
+  return null;
+}
+
+interface PersistedPage {
+  page: ReleasePage;
+  releases: GitHubRelease[];
+}
+
+// The releases a persisted page contributed, located by the page URL
+function persistedPage(
+  persisted: { releases: GitHubRelease[]; pages: ReleasePage[] },
+  url: string,
+): PersistedPage | null {
+  let offset = 0;
+  for (const page of persisted.pages) {
+    if (page.url === url) {
+      return { page, releases: persisted.releases.slice(offset, offset + page.count) };
+    }
+    offset += page.count;
+  }
+  return null;
+}
+
+function parseRateLimit(headers: Headers): RateLimitInfo | null {
+  const limit = headers.get('X-RateLimit-Limit');
+  const remaining = headers.get('X-RateLimit-Remaining');
+  const reset = headers.get('X-RateLimit-Reset');
+  if (limit === null || remaining === null || reset === null) return null;
+
+  return {
+    limit: parseInt(limit, 10),
+    remaining: parseInt(remaining, 10),
+    resetAt: parseInt(reset, 10) * 1000,
+  };
+}
 
 export class GitHubService {
-  private releasesCache: GitHubRelease[] | null = null;
+  // Keyed by "owner/name" of the profile's release repository
+  private releasesCache = new Map<string, GitHubRelease[]>();
+  private cache: CacheService | null;
+  private rateLimit: RateLimitInfo | null = null;
+  private servedStale = false;
+
+  constructor(cache: CacheService | null = null) {
+    this.cache = cache;
+  }
 
-  async fetchReleases(): Promise<GitHubRelease[]> {
-    if (this.releasesCache) {
-      return this.releasesCache;
+  /**
+   * Rate limit state from the most recent API response
+   */
+  getRateLimit(): RateLimitInfo | null {
+    return this.rateLimit;
+  }
+
+  /**
+   * Whether the last fetchReleases() fell back to a persisted catalogue
+   * because GitHub was unreachable or throttling us
+   */
+  isServingStaleReleases(): boolean {
+    return this.servedStale;
+  }
+
+  private async request(url: string, etag?: string): Promise<Response> {
+    const headers: Record<string, string> = { Accept: 'application/vnd.github+json' };
+    const token = loadGitHubToken();
+    if (token) {
+      headers.Authorization = `Bearer ${token}`;
+    }
+    if (etag) {
+      headers['If-None-Match'] = etag;
     }
 
-    const response = await fetch(
-      `https://api.github.com/repos/${REPO_OWNER}/${REPO_NAME}/releases`,
-    );
+    let response: Response;
+    try {
+      response = await fetch(url, { headers });
+    } catch (err) {
+      // fetch only rejects when no response arrived at all
+      throw new NetworkError(`Could not reach GitHub: ${(err as Error).message}`, { cause: err });
+    }
+    this.rateLimit = parseRateLimit(response.headers) ?? this.rateLimit;
 
-    if (!response.ok) {
-      throw new Error(`Failed to fetch releases: ${response.status} ${response.statusText}`);
+    const throttled =
+      response.status === 429 || (response.status === 403 && this.rateLimit?.remaining === 0);
+    if (throttled) {
+      throw new RateLimitError(this.rateLimit?.resetAt ?? null);
     }
+    if (response.status === 401) {
+      throw new GitHubAuthError();
+    }
+
+    return response;
+  }
+
+  async fetchReleases(profile: DeviceProfile): Promise<GitHubRelease[]> {
+    const { owner, name } = profile.releaseRepo;
+    const repo = `${owner}/${name}`;
+
+    const memoized = this.releasesCache.get(repo);
+    if (memoized) {
+      return memoized;
+    }
+
+    this.servedStale = false;
+    const persisted = this.cache ? await this.cache.getReleases(repo).catch(() => null) : null;
+    if (persisted && Date.now() - persisted.cachedAt < RELEASES_TTL_MS) {
+      this.releasesCache.set(repo, persisted.releases);
+      return persisted.releases;
+    }
+
+    const releases: GitHubRelease[] = [];
+    const pages: ReleasePage[] = [];
+    try {
+      // Follow Link pagination so older builds are not cut off after the first page
+      let url: string | null =
+        `https://api.github.com/repos/${repo}/releases?per_page=${RELEASES_PER_PAGE}`;
+      while (url) {
+        // Every page is conditional on the ETag it had when it was persisted
+        const cached: PersistedPage | null = persisted ? persistedPage(persisted, url) : null;
+        const response = await this.request(url, cached?.page.etag ?? undefined);
+
+        if (response.status === 304 && persisted && cached) {
+          // An unchanged first page means no release was published, edited or
+          // removed at the top of the list, so the rest is not asked for at all
+          if (pages.length === 0) {
+            this.releasesCache.set(repo, persisted.releases);
+            await this.cache
+              ?.putReleases(repo, persisted.releases, persisted.pages)
+              .catch(() => undefined);
+            return persisted.releases;
+          }
+          releases.push(...cached.releases);
+          pages.push(cached.page);
+          url = cached.page.next;
+          continue;
+        }
+
+        if (!response.ok) {
+          throw new HttpError(
+            response.status,
+            `Failed to fetch releases: ${response.status} ${response.statusText}`,
+          );
+        }
+
+        const page = (await response.json()) as GitHubRelease[];
+        const next = parseNextLink(response.headers.get('Link'));
+        releases.push(...page);
+        pages.push({ url, etag: response.headers.get('ETag'), count: page.length, next });
+        url = next;
+      }
+    } catch (err) {
+      // Offline, throttled or GitHub unreachable: a stale list beats no list
+      if (persisted) {
+        this.servedStale = true;
+        this.releasesCache.set(repo, persisted.releases);
+        return persisted.releases;
+      }
+      throw err;
+    }
+
+    this.releasesCache.set(repo, releases);
+    await this.cache?.putReleases(repo, releases, pages).catch(() => undefined);
+    return releases;
+  }
 
-    this.releasesCache = await response.json();
-    return this.releasesCache!;
+  async findMatchingRelease(
+    profile: DeviceProfile,
+    firmwareVersion: string,
+  ): Promise<GitHubRelease | null> {
+    const releases = await this.fetchReleases(profile);
+
+    // Tag names are firmware versions, e.g. "CPH2551_15.0.0.822(EX01)"
+    return releases.find(r => versionsMatch(firmwareVersion, r.tag_name)) || null;
+  }
+
+  /**
+   * Find the closest published releases on either side of the device firmware,
+   * restricted to the same model code and region
+   */
+  async findNearestReleases(
+    profile: DeviceProfile,
+    firmwareVersion: string,
+    perSide = 2,
+  ): Promise<NearbyRelease[]> {
+    const device = parseVersion(firmwareVersion);
+    if (!device) return [];
+
+    const candidates = (await this.fetchReleases(profile))
+      .map(release => ({ release, parsed: parseVersion(release.tag_name) }))
+      .filter(
+        ({ parsed }) =>
+          parsed && parsed.modelCode === device.modelCode && parsed.region === device.region,
+      )
+      .map(({ release, parsed }) => ({
+        release,
+        parsed: parsed!,
+        order: compareVersions(parsed!, device),
+      }))
+      .filter(({ order }) => order !== 0);
+
+    const older = candidates
+      .filter(c => c.order < 0)
+      .sort((a, b) => compareVersions(b.parsed, a.parsed))
+      .slice(0, perSide);
+    const newer = candidates
+      .filter(c => c.order > 0)
+      .sort((a, b) => compareVersions(a.parsed, b.parsed))
+      .slice(0, perSide);
+
+    return [...newer, ...older].map(({ release, parsed, order }) => ({
+      release,
+      direction: order > 0 ? 'newer' : 'older',
+      majorUpdate: parsed.osMajor !== device.osMajor,
+    }));
   }
 
-  async findMatchingRelease(firmwareVersion: string): Promise<GitHubRelease | null> {
-    const releases = await this.fetchReleases();
+  getPatchedImageAsset(release: GitHubRelease, profile: DeviceProfile): GitHubAsset | null {
+    return release.assets.find(a => a.name === profile.assets.patched) || null;
+  }
 
-    // Tag names match firmware version exactly
-    // e.g., "CPH2551_15.0.0.822(EX01)"
-    return releases.find(r => r.tag_name === firmwareVersion) || null;
+  getStockImageAsset(release: GitHubRelease, profile: DeviceProfile): GitHubAsset | null {
+    return release.assets.find(a => a.name === profile.assets.stock) || null;
   }
 
-  getPatchedImageAsset(release: GitHubRelease): GitHubAsset | null {
-    return release.assets.find(a => a.name === 'magisk_patched_init_boot.img') || null;
+  getImageAsset(
+    release: GitHubRelease,
+    profile: DeviceProfile,
+    mode: FlashMode,
+  ): GitHubAsset | null {
+    return mode === 'restore'
+      ? this.getStockImageAsset(release, profile)
+      : this.getPatchedImageAsset(release, profile);
   }
 
-  getStockImageAsset(release: GitHubRelease): GitHubAsset | null {
-    return release.assets.find(a => a.name === 'init_boot.img') || null;
+  // The latest Magisk release, or the one with the given tag (e.g. "v28.1")
+  async fetchMagiskRelease(tag?: string): Promise<GitHubRelease> {
+    const path = tag ? `tags/${encodeURIComponent(tag)}` : 'latest';
+    const response = await this.request(
+      `https://api.github.com/repos/${MAGISK_REPO}/releases/${path}`,
+    );
+    if (!response.ok) {
+      throw new HttpError(
+        response.status,
+        `Failed to fetch Magisk release: ${response.status} ${response.statusText}`,
+      );
+    }
+    return (await response.json()) as GitHubRelease;
+  }
+
+  getMagiskApkAsset(release: GitHubRelease): GitHubAsset | null {
+    return release.assets.find(a => a.name.endsWith('.apk')) || null;
+  }
+
+  /**
+   * Find the checksum asset covering an image: a per-file "<name>.sha256"
+   * takes precedence over a release-wide SHA256SUMS list
+   */
+  getChecksumAsset(release: GitHubRelease, imageName: string): GitHubAsset | null {
+    return (
+      release.assets.find(a => a.name === `${imageName}.sha256`) ||
+      release.assets.find(a => a.name === 'SHA256SUMS') ||
+      null
+    );
   }
 
   clearCache(): void {
-    this.releasesCache = null;
+    this.releasesCache.clear();
   }
 }
@@ -0,0 +1,530 @@
+import type {
+  BootPartition,
+  DeviceInfo,
+  DevicePreflightInfo,
+  FastbootDiagnostics,
+  FlashProgress,
+  MagiskStatus,
+  SimulationScenario,
+  SlotInfo,
+  SlotTarget,
+} from '../types';
+import { resolveSlotPartitions } from './fastboot';
+import { inspectBootImage } from '../utils/bootimg';
+import { parseGetvarAll, summarizeFastbootVars } from '../utils/getvar';
+import { TransferInterruptedError, UsbBusyError } from '../utils/errors';
+
+const SIMULATION_STORAGE_KEY = 'oneplus-flasher.simulation';
+
+// Firmware reported by the simulated device unless overridden with ?firmware=
+const DEFAULT_FIRMWARE = 'CPH2551_15.0.0.822(EX01)';
+
+const SIMULATED_FINGERPRINT =
+  'OnePlus/CPH2551EEA/OP595DL1:15/AP3A.240617.008/U.R4T2.1c7f4a2-2f3b-9d61:user/release-keys';
+
+// Version of the simulated Magisk daemon, and of any app installed over it
+const MAGISK_VERSION = '28.1:MAGISK:R';
+const MAGISK_VERSION_CODE = 28100;
+
+// Simulated flash duration per partition
+const FLASH_DURATION_MS = 3000;
+const SLOW_FLASH_DURATION_MS = 45000;
+const PROGRESS_STEPS = 50;
+
+// Page size of v3/v4 boot images, which the simulated patch keeps intact
+const BOOT_PAGE_SIZE = 4096;
+
+// What boot_patch.sh prints for a stock init_boot image
+const PATCH_OUTPUT = [
+  '- Device platform: arm64-v8a',
+  '- Installing: 28.1 (28100)',
+  '- Unpacking boot image',
+  '- Checking ramdisk status',
+  '- Stock boot image detected',
+  '- Patching ramdisk',
+  '- Repacking boot image',
+];
+
+export const SIMULATION_SCENARIOS: {
+  id: SimulationScenario;
+  label: string;
+  description: string;
+}[] = [
+  {
+    id: 'happy-path',
+    label: 'Happy path',
+    description: 'Unlocked OnePlus Open that flashes and reboots cleanly',
+  },
+  {
+    id: 'locked-bootloader',
+    label: 'Locked bootloader',
+    description: 'The device reports a locked bootloader',
+  },
+  {
+    id: 'disconnect-mid-flash',
+    label: 'Disconnect mid-flash',
+    description: 'The USB connection drops partway through the first transfer',
+  },
+  {
+    id: 'unknown-firmware',
+    label: 'Unknown firmware',
+    description: 'The device reports a display ID that cannot be parsed',
+  },
+  {
+    id: 'slow-transfer',
+    label: 'Slow transfer',
+    description: 'Flashing takes several times longer than usual',
+  },
+  {
+    id: 'fastboot-timeout',
+    label: 'Fastboot timeout',
+    description: 'The device never reappears after rebooting to the bootloader',
+  },
+  {
+    id: 'low-battery',
+    label: 'Low battery',
+    description: 'The battery is nearly empty and not charging',
+  },
+  {
+    id: 'boot-loop',
+    label: 'Boot loop',
+    description: 'The device never comes back over ADB after flashing',
+  },
+  {
+    id: 'not-rooted',
+    label: 'Not rooted',
+    description: 'The device boots after flashing but Magisk is not running',
+  },
+  {
+    id: 'usb-busy',
+    label: 'USB busy',
+    description: 'A running adb server holds the USB interface on the first connection attempt',
+  },
+];
+
+function isScenario(value: string | null): value is SimulationScenario {
+  return SIMULATION_SCENARIOS.some(s => s.id === value);
+}
+
+/**
+ * The active scenario, or null to talk to real hardware.
+ * A ?simulate=<scenario> URL flag takes precedence over the saved setting.
+ */
+export function loadSimulationScenario(): SimulationScenario | null {
+  const flag = new URLSearchParams(window.location.search).get('simulate');
+  if (flag !== null) {
+    return isScenario(flag) ? flag : 'happy-path';
+  }
+  try {
+    const stored = localStorage.getItem(SIMULATION_STORAGE_KEY);
+    return isScenario(stored) ? stored : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveSimulationScenario(scenario: SimulationScenario | null): void {
+  if (scenario) {
+    localStorage.setItem(SIMULATION_STORAGE_KEY, scenario);
+  } else {
+    localStorage.removeItem(SIMULATION_STORAGE_KEY);
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function cpioEntry(name: string): string {
+  const fields = [1, 0o100644, 0, 0, 1, 0, 0, 0, 0, 0, 0, name.length + 1, 0];
+  const header = `070701${fields.map(f => f.toString(16).padStart(8, '0')).join('')}`;
+  const entry = `${header}${name}\0`;
+  return entry.padEnd(Math.ceil(entry.length / 4) * 4, '\0');
+}
+
+/**
+ * Stand-in for boot_patch.sh: keep the header and any kernel, and replace the
+ * ramdisk with an uncompressed cpio holding the marker Magisk leaves behind
+ */
+async function simulatePatchedImage(stock: Blob): Promise<Blob> {
+  const header = new Uint8Array(await stock.slice(0, BOOT_PAGE_SIZE).arrayBuffer());
+  const view = new DataView(header.buffer);
+  const kernelSize = view.getUint32(8, true);
+  const kernelEnd = BOOT_PAGE_SIZE + Math.ceil(kernelSize / BOOT_PAGE_SIZE) * BOOT_PAGE_SIZE;
+
+  const ramdisk = new TextEncoder().encode(cpioEntry('.backup/.magisk') + cpioEntry('TRAILER!!!'));
+  view.setUint32(12, ramdisk.length, true);
+  return new Blob([header, stock.slice(BOOT_PAGE_SIZE, kernelEnd), ramdisk]);
+}
+
+/**
+ * State shared by the simulated ADB and fastboot backends, so what is
+ * flashed in fastboot shows up after the device boots
+ */
+export class SimulatedDevice {
+  readonly scenario: SimulationScenario;
+  rooted = false;
+  // versionCode of the installed Magisk app; installs outlive ADB reconnects
+  magiskAppVersionCode: number | null = null;
+  // One-off failures already played out, so a retry gets past them
+  usbReleased = false;
+  transferInterrupted = false;
+
+  constructor(scenario: SimulationScenario) {
+    this.scenario = scenario;
+  }
+
+  // Root follows the flashed image, read the same way the app inspects it
+  async flash(blob: Blob, partition: string): Promise<void> {
+    const info = await inspectBootImage(
+      blob,
+      partition.replace(/_[ab]$/, '') as BootPartition,
+    ).catch(() => null);
+    this.rooted = this.scenario !== 'not-rooted' && info?.magiskPatched === true;
+  }
+}
+
+/**
+ * Stand-in for AdbService that never touches USB
+ */
+export class SimulatedAdbService {
+  private device: SimulatedDevice;
+  private connected = false;
+  private files = new Map<string, Blob>();
+
+  constructor(device: SimulatedDevice) {
+    this.device = device;
+  }
+
+  private get scenario(): SimulationScenario {
+    return this.device.scenario;
+  }
+
+  async connect(signal?: AbortSignal): Promise<void> {
+    await sleep(500);
+    signal?.throwIfAborted();
+    if (this.scenario === 'usb-busy' && !this.device.usbReleased) {
+      this.device.usbReleased = true;
+      throw new UsbBusyError();
+    }
+    this.connected = true;
+  }
+
+  async reconnect(signal?: AbortSignal): Promise<void> {
+    await sleep(500);
+    signal?.throwIfAborted();
+    this.connected = true;
+  }
+
+  async waitForDevice(timeoutMs: number): Promise<boolean> {
+    if (this.scenario === 'boot-loop') {
+      // Cut short so the timeout path is quick to reach
+      await sleep(Math.min(timeoutMs, 5000));
+      return false;
+    }
+    await sleep(3000);
+    return true;
+  }
+
+  async waitForBootCompleted(): Promise<boolean> {
+    await sleep(1000);
+    return this.connected;
+  }
+
+  async getProperty(propName: string): Promise<string> {
+    if (!this.connected) {
+      throw new Error('Not connected to device');
+    }
+
+    const firmware =
+      this.scenario === 'unknown-firmware'
+        ? 'OnePlus-Test-Build'
+        : (new URLSearchParams(window.location.search).get('firmware') ?? DEFAULT_FIRMWARE);
+    const props: Record<string, string> = {
+      'ro.product.model': 'CPH2551',
+      'ro.build.display.id': firmware,
+      'ro.boot.slot_suffix': '_a',
+      'ro.product.cpu.abi': 'arm64-v8a',
+      'ro.build.fingerprint': SIMULATED_FINGERPRINT,
+    };
+    await sleep(50);
+    return props[propName] ?? '';
+  }
+
+  async getDeviceInfo(): Promise<DeviceInfo> {
+    const model = await this.getProperty('ro.product.model');
+    const firmwareVersion = await this.getProperty('ro.build.display.id');
+    const slotSuffix = await this.getProperty('ro.boot.slot_suffix');
+    const fingerprint = await this.getProperty('ro.build.fingerprint');
+
+    return {
+      model,
+      firmwareVersion,
+      serial: 'SIMULATED0001',
+      activeSlot: slotSuffix.replace(/^_/, '') || undefined,
+      fingerprint: fingerprint || undefined,
+    };
+  }
+
+  async getPreflightInfo(): Promise<DevicePreflightInfo> {
+    if (!this.connected) {
+      throw new Error('Not connected to device');
+    }
+    await sleep(300);
+    const locked = this.scenario === 'locked-bootloader';
+    return {
+      flashLocked: locked ? '1' : '0',
+      verifiedBootState: locked ? 'green' : 'orange',
+      securityPatch: '2025-01-05',
+      activeSlot: 'a',
+      batteryLevel: this.scenario === 'low-battery' ? 8 : 76,
+      charging: false,
+    };
+  }
+
+  async getMagiskStatus(): Promise<MagiskStatus> {
+    if (!this.connected) {
+      throw new Error('Not connected to device');
+    }
+    await sleep(200);
+    return this.device.rooted
+      ? {
+          daemonRunning: true,
+          suAvailable: true,
+          version: MAGISK_VERSION,
+          versionCode: MAGISK_VERSION_CODE,
+        }
+      : { daemonRunning: false, suAvailable: false, version: null, versionCode: null };
+  }
+
+  async getMagiskAppVersionCode(): Promise<number | null> {
+    if (!this.connected) {
+      throw new Error('Not connected to device');
+    }
+    await sleep(200);
+    return this.device.magiskAppVersionCode;
+  }
+
+  // Any APK installs as the Magisk app matching the simulated daemon
+  async installApk(apk: Blob, onProgress?: (fraction: number) => void): Promise<void> {
+    for (let step = 1; step <= PROGRESS_STEPS; step++) {
+      if (!this.connected) {
+        throw new Error('Not connected to device');
+      }
+      await sleep(1000 / PROGRESS_STEPS);
+      onProgress?.(step / PROGRESS_STEPS);
+    }
+    if (apk.size === 0) {
+      throw new Error('Failure [INSTALL_PARSE_FAILED_NOT_APK: Failed to parse APK]');
+    }
+    await sleep(1500);
+    this.device.magiskAppVersionCode = MAGISK_VERSION_CODE;
+  }
+
+  // Only the cleanup of pushed files has an effect
+  async shell(command: string): Promise<string> {
+    if (!this.connected) {
+      throw new Error('Not connected to device');
+    }
+    const removed = /rm -rf (\S+)/.exec(command);
+    if (removed) {
+      for (const path of this.files.keys()) {
+        if (path.startsWith(`${removed[1]}/`)) this.files.delete(path);
+      }
+    }
+    await sleep(50);
+    return '';
+  }
+
+  // Runs boot_patch.sh against a pushed image, writing new-boot.img next to it
+  async shellStreaming(
+    command: string,
+    onLine: (line: string) => void,
+    signal?: AbortSignal,
+  ): Promise<number> {
+    if (!this.connected) {
+      throw new Error('Not connected to device');
+    }
+    const patch = /cd (\S+) .*boot_patch\.sh (\S+)/.exec(command);
+    const stock = patch && this.files.get(`${patch[1]}/${patch[2]}`);
+    if (!patch || !stock) {
+      onLine(`sh: ${command}: not found`);
+      return 127;
+    }
+
+    onLine(`- Target image: ${patch[1]}/${patch[2]}`);
+    for (const line of PATCH_OUTPUT) {
+      await sleep(400);
+      signal?.throwIfAborted();
+      onLine(line);
+    }
+    this.files.set(`${patch[1]}/new-boot.img`, await simulatePatchedImage(stock));
+    onLine('- Done!');
+    return 0;
+  }
+
+  async push(path: string, blob: Blob): Promise<void> {
+    if (!this.connected) {
+      throw new Error('Not connected to device');
+    }
+    await sleep(100);
+    this.files.set(path, blob);
+  }
+
+  async pull(path: string): Promise<Blob> {
+    const blob = this.files.get(path);
+    if (!this.connected || !blob) {
+      throw new Error(`Failed to pull ${path}`);
+    }
+    await sleep(300);
+    return blob;
+  }
+
+  async rebootToBootloader(): Promise<void> {
+    if (!this.connected) {
+      throw new Error('Not connected to device');
+    }
+    await sleep(1000);
+  }
+
+  async disconnect(): Promise<void> {
+    this.connected = false;
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+}
+
+/**
+ * Stand-in for FastbootService that never touches USB
+ */
+export class SimulatedFastbootService {
+  private device: SimulatedDevice;
+  private connected = false;
+  private disconnectListeners = new Set<() => void>();
+
+  constructor(device: SimulatedDevice) {
+    this.device = device;
+  }
+
+  private get scenario(): SimulationScenario {
+    return this.device.scenario;
+  }
+
+  async connect(signal?: AbortSignal): Promise<void> {
+    await sleep(500);
+    signal?.throwIfAborted();
+    this.connected = true;
+  }
+
+  async disconnect(): Promise<void> {
+    this.connected = false;
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  watchDisconnect(onDisconnect: () => void): () => void {
+    this.disconnectListeners.add(onDisconnect);
+    return () => {
+      this.disconnectListeners.delete(onDisconnect);
+    };
+  }
+
+  async waitForDevice(timeoutMs: number, signal?: AbortSignal): Promise<boolean> {
+    if (this.scenario === 'fastboot-timeout') {
+      // Cut short so the timeout path is quick to reach
+      await sleep(Math.min(timeoutMs, 5000));
+      return false;
+    }
+    await sleep(2000);
+    return !signal?.aborted;
+  }
+
+  private variables(): Record<string, string> {
+    return {
+      product: 'OP595DL1',
+      secure: 'yes',
+      unlocked: this.scenario === 'locked-bootloader' ? 'no' : 'yes',
+      'current-slot': 'a',
+      'slot-count': '2',
+      'max-download-size': '0x10000000',
+      'is-userspace': 'no',
+      'partition-size:init_boot_a': '0x800000',
+      'partition-size:init_boot_b': '0x800000',
+      'partition-type:init_boot_a': 'raw',
+      'partition-type:init_boot_b': 'raw',
+      'partition-size:boot_a': '0x6000000',
+      'partition-size:boot_b': '0x6000000',
+      'partition-type:boot_a': 'raw',
+      'partition-type:boot_b': 'raw',
+    };
+  }
+
+  async getVariable(name: string): Promise<string | null> {
+    await sleep(20);
+    return this.variables()[name] ?? null;
+  }
+
+  async getDiagnostics(): Promise<FastbootDiagnostics> {
+    await sleep(200);
+    const text = Object.entries(this.variables())
+      .map(([key, value]) => `${key}: ${value}`)
+      .join('\n');
+    return summarizeFastbootVars(parseGetvarAll(text));
+  }
+
+  async isBootloaderUnlocked(): Promise<boolean> {
+    return (await this.getVariable('unlocked')) === 'yes';
+  }
+
+  async getSlotInfo(): Promise<SlotInfo> {
+    const currentSlot = await this.getVariable('current-slot');
+    const slotCount = await this.getVariable('slot-count');
+
+    return {
+      currentSlot,
+      slotCount: slotCount ? parseInt(slotCount, 10) || 0 : 0,
+    };
+  }
+
+  resolvePartitions(slotInfo: SlotInfo, target: SlotTarget, partition: BootPartition): string[] {
+    return resolveSlotPartitions(slotInfo, target, partition);
+  }
+
+  async flashPartitions(
+    imageBlob: Blob,
+    partitions: string[],
+    onProgress?: (progress: FlashProgress) => void,
+  ): Promise<void> {
+    const duration = this.scenario === 'slow-transfer' ? SLOW_FLASH_DURATION_MS : FLASH_DURATION_MS;
+
+    for (const partition of partitions) {
+      for (let step = 0; step <= PROGRESS_STEPS; step++) {
+        const progress = step / PROGRESS_STEPS;
+        if (
+          this.scenario === 'disconnect-mid-flash' &&
+          !this.device.transferInterrupted &&
+          progress >= 0.4
+        ) {
+          this.connected = false;
+          this.device.transferInterrupted = true;
+          for (const listener of this.disconnectListeners) listener();
+          throw new TransferInterruptedError(
+            `Writing ${partition} was interrupted: the device was disconnected`,
+          );
+        }
+        onProgress?.({ action: 'flashing', partition, progress });
+        await sleep(duration / PROGRESS_STEPS);
+      }
+      await this.device.flash(imageBlob, partition);
+    }
+  }
+
+  async reboot(): Promise<void> {
+    await sleep(500);
+    this.connected = false;
+  }
+}
@@ -9,23 +9,158 @@ export type FlashState =
   | 'FETCHING_RELEASES'
   | 'RELEASE_NOT_FOUND'
   | 'RELEASE_MATCHED'
+  | 'BROWSING_RELEASES'
   | 'DOWNLOADING_IMAGE'
   | 'DOWNLOAD_COMPLETE'
+  | 'PATCHING_ON_DEVICE'
+  | 'EXTRACTING_OTA'
+  | 'VERIFYING_IMAGE'
   | 'CONFIRMING_FLASH'
+  | 'CONFIRMING_RESTORE'
   | 'REBOOTING_BOOTLOADER'
   | 'WAITING_FASTBOOT'
   | 'FASTBOOT_CONNECTING'
   | 'FASTBOOT_CONNECTED'
   | 'FLASHING'
+  | 'FLASH_INTERRUPTED'
   | 'FLASH_COMPLETE'
   | 'REBOOTING_SYSTEM'
+  | 'VERIFYING_BOOT'
   | 'SUCCESS'
+  | 'INSTALLING_MAGISK_APP'
+  | 'RESTORE_SUCCESS'
+  | 'VERIFICATION_FAILED'
   | 'ERROR';
 
+// 'patch' flashes the Magisk-patched image, 'restore' flashes the stock image back
+export type FlashMode = 'patch' | 'restore';
+
+export type BootPartition = 'init_boot' | 'boot';
+
+export interface DeviceProfile {
+  id: string;
+  name: string; // marketing name, e.g. "OnePlus Open"
+  modelCodes: string[]; // firmware model codes, e.g. ["CPH2551"]
+  // init_boot on devices launched with Android 13+, boot on older GKI devices
+  partition: BootPartition;
+  assets: {
+    patched: string;
+    stock: string;
+  };
+  releaseRepo: {
+    owner: string;
+    name: string;
+  };
+}
+
+// Which A/B slot(s) of init_boot to write, relative to the currently active slot
+export type SlotTarget = 'active' | 'inactive' | 'both';
+
+// Where the image to flash came from: a GitHub release asset, a user-supplied file,
+// a stock image patched with Magisk on the device, or one extracted from an OTA package
+export type ImageSource = 'release' | 'local' | 'patched' | 'ota';
+
 export interface DeviceInfo {
   model: string;
   firmwareVersion: string;
   serial?: string;
+  activeSlot?: string; // "a" or "b", absent on non-A/B devices
+  fingerprint?: string; // ro.build.fingerprint
+}
+
+// Scripted behaviour of the simulated device backend
+export type SimulationScenario =
+  | 'happy-path'
+  | 'locked-bootloader'
+  | 'disconnect-mid-flash'
+  | 'unknown-firmware'
+  | 'slow-transfer'
+  | 'fastboot-timeout'
+  | 'low-battery'
+  | 'boot-loop'
+  | 'not-rooted'
+  | 'usb-busy';
+
+// Progress of the automatic fastboot reconnection after rebooting to the bootloader
+export type FastbootWaitStatus = 'waiting' | 'timed-out';
+
+// Device state read over ADB before rebooting to the bootloader
+export interface DevicePreflightInfo {
+  flashLocked: string | null; // ro.boot.flash.locked, "1" when locked
+  verifiedBootState: string | null; // ro.boot.verifiedbootstate: green, yellow, orange
+  securityPatch: string | null; // ro.build.version.security_patch, "2025-01-05"
+  activeSlot: string | null;
+  batteryLevel: number | null; // percent
+  charging: boolean;
+}
+
+export interface PreflightCheck {
+  id: string;
+  label: string;
+  // 'fail' blocks rebooting to the bootloader
+  status: 'pass' | 'warn' | 'fail';
+  detail: string;
+}
+
+export interface MagiskStatus {
+  daemonRunning: boolean; // magiskd is running
+  suAvailable: boolean; // an su binary is on PATH
+  version: string | null; // output of `magisk -v`
+  versionCode: number | null; // output of `magisk -V`, e.g. 28100
+}
+
+// Result of checking the device over ADB after it reboots from a flash.
+// 'inactive-slot': only the inactive slot was written, so the boot says nothing about it
+export type BootOutcome =
+  | 'rooted'
+  | 'not-rooted'
+  | 'did-not-boot'
+  | 'firmware-changed'
+  | 'inactive-slot';
+
+export interface BootVerification {
+  outcome: BootOutcome;
+  firmwareVersion: string | null; // display ID after the reboot
+  magisk: MagiskStatus | null;
+}
+
+// Installing the Magisk app over ADB, an optional step after a successful flash
+export interface MagiskAppInstall {
+  status: 'downloading' | 'pushing' | 'installing' | 'installed' | 'up-to-date' | 'failed';
+  progress: number; // 0-1 while pushing the APK; downloads report through downloadProgress
+  versionCode: number | null; // of the installed app, when known
+  error: string | null;
+}
+
+export interface FastbootPartition {
+  name: string; // "init_boot_a"
+  size: number | null; // bytes
+  type: string | null; // "raw", "ext4", ...
+  logical: boolean; // lives in the super partition
+}
+
+// Parsed `getvar all` output
+export interface FastbootDiagnostics {
+  variables: Record<string, string>;
+  product: string | null;
+  secure: string | null;
+  unlocked: string | null;
+  currentSlot: string | null;
+  slotCount: number;
+  maxDownloadSize: number | null;
+  isUserspace: boolean; // fastbootd rather than the bootloader
+  partitions: FastbootPartition[];
+}
+
+// Pre-flight check result; blockers stop the flash
+export interface PreflightFinding {
+  severity: 'warning' | 'blocker';
+  message: string;
+}
+
+export interface SlotInfo {
+  currentSlot: string | null; // "a" or "b"
+  slotCount: number;
 }
 
 export interface GitHubRelease {
@@ -35,16 +170,64 @@ export interface GitHubRelease {
   assets: GitHubAsset[];
 }
 
+// A release for the same model and region as the device, but a different build
+export interface NearbyRelease {
+  release: GitHubRelease;
+  direction: 'older' | 'newer';
+  majorUpdate: boolean; // differs in major OS version
+}
+
+export interface RateLimitInfo {
+  limit: number;
+  remaining: number;
+  resetAt: number; // epoch ms
+}
+
 export interface GitHubAsset {
   name: string;
   browser_download_url: string;
   size: number;
 }
 
+export interface ImageChecksum {
+  sha256: string;
+  // false when the release does not publish a checksum for the image
+  verified: boolean;
+}
+
+export type RamdiskFormat = 'lz4_legacy' | 'gzip' | 'cpio' | 'unknown';
+
+export interface BootImageInfo {
+  headerVersion: number;
+  ramdiskSize: number;
+  osVersion: string | null; // "15.0.0"
+  osPatchLevel: string | null; // "2025-01"
+  ramdiskFormat: RamdiskFormat;
+  // null when the ramdisk could not be decompressed
+  magiskPatched: boolean | null;
+}
+
+export interface CachedImage {
+  key: string; // "<tag>/<asset name>/<size>"
+  tag: string;
+  assetName: string;
+  size: number;
+  cachedAt: number; // epoch ms
+}
+
+export interface DownloadSource {
+  name: string;
+  // "{url}" is replaced with the encoded asset URL, "{rawUrl}" with the URL as-is
+  urlTemplate: string;
+  enabled: boolean;
+  builtin?: boolean;
+}
+
 export interface DownloadProgress {
   loaded: number;
   total: number;
   percentage: number;
+  source?: string; // download source currently serving the bytes
 }
 
 export interface FlashProgress {
@@ -53,13 +236,64 @@ export interface FlashProgress {
   progress: number;
 }
 
+// Known causes of failure, each with its own remediation text
+export type ErrorKind =
+  | 'cancelled'
+  | 'usb-busy'
+  | 'unauthorized'
+  | 'bootloader-locked'
+  | 'network'
+  | 'rate-limited'
+  | 'github-auth'
+  | 'http'
+  | 'checksum-mismatch'
+  | 'transfer-interrupted'
+  | 'incompatible'
+  | 'preflight-failed'
+  | 'unknown';
+
+export interface FailureInfo {
+  kind: ErrorKind;
+  remediation: string | null;
+  retryable: boolean; // whether the failed step can be run again without starting over
+}
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface LogEntry {
+  timestamp: number; // epoch ms
+  level: LogLevel;
+  phase: FlashState; // flow state when the entry was written
+  message: string;
+  data?: Record<string, unknown>;
+}
+
 export interface AppState {
   state: FlashState;
+  flashMode: FlashMode;
   deviceInfo: DeviceInfo | null;
+  deviceProfile: DeviceProfile | null;
   matchedRelease: GitHubRelease | null;
+  nearbyReleases: NearbyRelease[];
+  releaseCatalogue: GitHubRelease[];
+  // true when the user deliberately picked a release for other firmware
+  releaseMismatch: boolean;
   imageBlob: Blob | null;
+  imageSource: ImageSource;
+  imageName: string | null;
+  imageChecksum: ImageChecksum | null;
+  bootImageInfo: BootImageInfo | null;
   downloadProgress: DownloadProgress | null;
   flashProgress: FlashProgress | null;
+  slotTarget: SlotTarget;
+  slotInfo: SlotInfo | null;
+  deviceChecks: PreflightCheck[];
+  fastbootWait: FastbootWaitStatus | null;
+  fastbootDiagnostics: FastbootDiagnostics | null;
+  preflightFindings: PreflightFinding[];
+  bootVerification: BootVerification | null;
+  magiskAppInstall: MagiskAppInstall | null;
   error: string | null;
-  logs: string[];
+  failure: FailureInfo | null;
+  logs: LogEntry[];
 }
@@ -0,0 +1,274 @@
+import type { BootImageInfo, BootPartition, RamdiskFormat } from '../types';
+
+const BOOT_MAGIC = 'ANDROID!';
+// v3/v4 headers have a fixed page size
+const V3_PAGE_SIZE = 4096;
+const LZ4_LEGACY_MAGIC = 0x184c2102;
+const CPIO_NEWC_MAGIC = '070701';
+const CPIO_TRAILER = 'TRAILER!!!';
+
+/**
+ * Parse and validate an image for the given partition.
+ * Throws if the blob is not a complete v3/v4 boot image: init_boot images
+ * must carry only a ramdisk, boot images must carry a kernel.
+ */
+export async function inspectBootImage(
+  blob: Blob,
+  partition: BootPartition,
+): Promise<BootImageInfo> {
+  if (blob.size < V3_PAGE_SIZE) {
+    throw new Error(`Image is too small to be a ${partition} image (${blob.size} bytes)`);
+  }
+
+  const header = new Uint8Array(await blob.slice(0, V3_PAGE_SIZE).arrayBuffer());
+  if (ascii(header, 0, BOOT_MAGIC.length) !== BOOT_MAGIC) {
+    throw new Error('Not an Android boot image (missing ANDROID! magic)');
+  }
+
+  const view = new DataView(header.buffer);
+  // header_version sits at offset 40 in every header version
+  const headerVersion = view.getUint32(40, true);
+  if (headerVersion < 3) {
+    throw new Error(`Boot image header v${headerVersion} is not supported (needs v3/v4)`);
+  }
+
+  const kernelSize = view.getUint32(8, true);
+  const ramdiskSize = view.getUint32(12, true);
+  const osVersionField = view.getUint32(16, true);
+
+  if (partition === 'init_boot' && kernelSize !== 0) {
+    throw new Error('Image contains a kernel; this looks like boot.img, not init_boot.img');
+  }
+  if (partition === 'boot' && kernelSize === 0) {
+    throw new Error('Image has no kernel; this looks like init_boot.img, not boot.img');
+  }
+  if (ramdiskSize === 0) {
+    throw new Error('Image has an empty ramdisk');
+  }
+
+  // Sections follow the header, each padded to a whole page
+  const ramdiskOffset = V3_PAGE_SIZE + alignPage(kernelSize);
+  if (blob.size < ramdiskOffset + ramdiskSize) {
+    throw new Error(
+      `Image is truncated: ramdisk needs ${ramdiskOffset + ramdiskSize} bytes, got ${blob.size}`,
+    );
+  }
+
+  const { osVersion, osPatchLevel } = decodeOsVersion(osVersionField);
+  const ramdisk = new Uint8Array(
+    await blob.slice(ramdiskOffset, ramdiskOffset + ramdiskSize).arrayBuffer(),
+  );
+  const ramdiskFormat = detectRamdiskFormat(ramdisk);
+
+  let magiskPatched: boolean | null = null;
+  try {
+    const cpio = await decompressRamdisk(ramdisk, ramdiskFormat);
+    if (cpio) {
+      magiskPatched = containsMagisk(listCpioEntries(cpio));
+    }
+  } catch {
+    // Unreadable ramdisk: leave the patched state unknown
+  }
+
+  return {
+    headerVersion,
+    ramdiskSize,
+    osVersion,
+    osPatchLevel,
+    ramdiskFormat,
+    magiskPatched,
+  };
+}
+
+/**
+ * Decode the packed os_version field: 7 bits each for A.B.C,
+ * then 7 bits of years since 2000 and 4 bits of month
+ */
+function decodeOsVersion(field: number): { osVersion: string | null; osPatchLevel: string | null } {
+  if (field === 0) {
+    return { osVersion: null, osPatchLevel: null };
+  }
+
+  const version = field >>> 11;
+  const patch = field & 0x7ff;
+  const a = (version >>> 14) & 0x7f;
+  const b = (version >>> 7) & 0x7f;
+  const c = version & 0x7f;
+  const year = 2000 + (patch >>> 4);
+  const month = patch & 0xf;
+
+  return {
+    osVersion: version ? `${a}.${b}.${c}` : null,
+    osPatchLevel: patch ? `${year}-${String(month).padStart(2, '0')}` : null,
+  };
+}
+
+function detectRamdiskFormat(data: Uint8Array): RamdiskFormat {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  if (data.length >= 4 && view.getUint32(0, true) === LZ4_LEGACY_MAGIC) {
+    return 'lz4_legacy';
+  }
+  if (data[0] === 0x1f && data[1] === 0x8b) {
+    return 'gzip';
+  }
+  if (ascii(data, 0, CPIO_NEWC_MAGIC.length) === CPIO_NEWC_MAGIC) {
+    return 'cpio';
+  }
+  return 'unknown';
+}
+
+async function decompressRamdisk(
+  data: Uint8Array,
+  format: RamdiskFormat,
+): Promise<Uint8Array | null> {
+  switch (format) {
+    case 'cpio':
+      return data;
+    case 'lz4_legacy':
+      return decompressLz4Legacy(data);
+    case 'gzip': {
+      const stream = new Blob([data as BlobPart])
+        .stream()
+        .pipeThrough(new DecompressionStream('gzip'));
+      return new Uint8Array(await new Response(stream).arrayBuffer());
+    }
+    case 'unknown':
+      return null;
+  }
+}
+
+/**
+ * Decompress the LZ4 legacy frame format used by Android ramdisks:
+ * a magic number followed by length-prefixed raw LZ4 blocks
+ */
+function decompressLz4Legacy(data: Uint8Array): Uint8Array {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const blocks: Uint8Array[] = [];
+  let offset = 4;
+
+  while (offset + 4 <= data.length) {
+    const blockSize = view.getUint32(offset, true);
+    offset += 4;
+    // Concatenated frames repeat the magic; stop at padding or a bogus length
+    if (blockSize === LZ4_LEGACY_MAGIC) continue;
+    if (blockSize === 0 || offset + blockSize > data.length) break;
+
+    blocks.push(decompressLz4Block(data.subarray(offset, offset + blockSize)));
+    offset += blockSize;
+  }
+
+  const total = blocks.reduce((sum, b) => sum + b.length, 0);
+  const result = new Uint8Array(total);
+  let pos = 0;
+  for (const block of blocks) {
+    result.set(block, pos);
+    pos += block.length;
+  }
+  return result;
+}
+
+function decompressLz4Block(src: Uint8Array): Uint8Array {
+  let out = new Uint8Array(src.length * 4);
+  let outPos = 0;
+  let pos = 0;
+
+  const ensure = (extra: number) => {
+    if (outPos + extra <= out.length) return;
+    const grown = new Uint8Array(Math.max(out.length * 2, outPos + extra));
+    grown.set(out.subarray(0, outPos));
+    out = grown;
+  };
+
+  const readLength = (initial: number) => {
+    let length = initial;
+    if (initial === 15) {
+      let byte;
+      do {
+        byte = src[pos++];
+        length += byte;
+      } while (byte === 255);
+    }
+    return length;
+  };
+
+  while (pos < src.length) {
+    const token = src[pos++];
+
+    const literalLength = readLength(token >>> 4);
+    ensure(literalLength);
+    out.set(src.subarray(pos, pos + literalLength), outPos);
+    pos += literalLength;
+    outPos += literalLength;
+
+    // The last sequence has literals only
+    if (pos >= src.length) break;
+
+    const matchOffset = src[pos] | (src[pos + 1] << 8);
+    pos += 2;
+    if (matchOffset === 0 || matchOffset > outPos) {
+      throw new Error('Corrupt LZ4 block');
+    }
+
+    const matchLength = readLength(token & 0x0f) + 4;
+    ensure(matchLength);
+    // Byte-by-byte copy: matches may overlap their own output
+    for (let i = 0; i < matchLength; i++) {
+      out[outPos] = out[outPos - matchOffset];
+      outPos++;
+    }
+  }
+
+  return out.subarray(0, outPos);
+}
+
+/**
+ * List entry names in a cpio "newc" archive
+ */
+function listCpioEntries(data: Uint8Array): string[] {
+  const names: string[] = [];
+  let offset = 0;
+
+  while (offset + 110 <= data.length) {
+    if (ascii(data, offset, 6) !== CPIO_NEWC_MAGIC) break;
+
+    const field = (index: number) => parseInt(ascii(data, offset + 6 + index * 8, 8), 16);
+    const fileSize = field(6);
+    const nameSize = field(11);
+
+    // Name includes a trailing NUL
+    const name = ascii(data, offset + 110, nameSize - 1);
+    if (name === CPIO_TRAILER) break;
+    names.push(name);
+
+    offset = align4(offset + 110 + nameSize);
+    offset = align4(offset + fileSize);
+  }
+
+  return names;
+}
+
+/**
+ * Magisk keeps the original init and its config under .backup/
+ * and injects its files through overlay.d/
+ */
+function containsMagisk(entries: string[]): boolean {
+  return entries.some(
+    name =>
+      name === '.backup/.magisk' ||
+      name === '.backup/init' ||
+      name === 'overlay.d' ||
+      name.startsWith('overlay.d/'),
+  );
+}
+
+function alignPage(n: number): number {
+  return Math.ceil(n / V3_PAGE_SIZE) * V3_PAGE_SIZE;
+}
+
+function align4(n: number): number {
+  return (n + 3) & ~3;
+}
+
+function ascii(data: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...data.subarray(offset, offset + length));
+}
@@ -0,0 +1,279 @@
+const BLOCK_MAGIC = 0x314159265359;
+const END_MAGIC = 0x177245385090;
+
+const GROUP_SIZE = 50;
+const MAX_TREES = 6;
+const MAX_CODE_LENGTH = 20;
+const RUN_A = 0;
+const RUN_B = 1;
+
+/**
+ * Decompress a .bz2 stream, as used by REPLACE_BZ payload operations.
+ * Concatenated streams are decoded back to back; block CRCs are skipped
+ * since payload data carries its own SHA-256.
+ */
+export function decompressBzip2(data: Uint8Array): Uint8Array {
+  const reader = new BitReader(data);
+  const chunks: Uint8Array[] = [];
+
+  while (reader.remaining() >= 4 * 8 && reader.peekSignature()) {
+    reader.read(24); // "BZh"
+    const level = reader.read(8) - 0x30;
+    if (level < 1 || level > 9) {
+      throw new Error('Invalid bzip2 block size');
+    }
+
+    for (;;) {
+      const magic = reader.read(24) * 2 ** 24 + reader.read(24);
+      reader.read(32); // block or stream CRC
+      if (magic === END_MAGIC) break;
+      if (magic !== BLOCK_MAGIC) {
+        throw new Error('Corrupt bzip2 block header');
+      }
+      chunks.push(decodeBlock(reader, level * 100000));
+    }
+    reader.alignToByte();
+  }
+
+  const output = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return output;
+}
+
+class BitReader {
+  private data: Uint8Array;
+  private position = 0; // in bits
+
+  constructor(data: Uint8Array) {
+    this.data = data;
+  }
+
+  remaining(): number {
+    return this.data.length * 8 - this.position;
+  }
+
+  peekSignature(): boolean {
+    const byte = this.position >>> 3;
+    return this.data[byte] === 0x42 && this.data[byte + 1] === 0x5a && this.data[byte + 2] === 0x68;
+  }
+
+  read(count: number): number {
+    let value = 0;
+    for (let i = 0; i < count; i++) {
+      const byte = this.data[this.position >>> 3];
+      if (byte === undefined) {
+        throw new Error('Truncated bzip2 stream');
+      }
+      value = value * 2 + ((byte >>> (7 - (this.position & 7))) & 1);
+      this.position++;
+    }
+    return value;
+  }
+
+  alignToByte(): void {
+    this.position = (this.position + 7) & ~7;
+  }
+}
+
+/**
+ * Canonical Huffman table: codes are assigned in order of length, then symbol
+ */
+class HuffmanTable {
+  private counts = new Array<number>(MAX_CODE_LENGTH + 1).fill(0);
+  private firstCode = new Array<number>(MAX_CODE_LENGTH + 1).fill(0);
+  private firstIndex = new Array<number>(MAX_CODE_LENGTH + 1).fill(0);
+  private symbols: number[] = [];
+
+  constructor(lengths: number[]) {
+    for (let length = 1; length <= MAX_CODE_LENGTH; length++) {
+      lengths.forEach((l, symbol) => {
+        if (l === length) this.symbols.push(symbol);
+      });
+    }
+    for (const length of lengths) this.counts[length]++;
+
+    let code = 0;
+    let index = 0;
+    for (let length = 1; length <= MAX_CODE_LENGTH; length++) {
+      this.firstCode[length] = code;
+      this.firstIndex[length] = index;
+      code = (code + this.counts[length]) * 2;
+      index += this.counts[length];
+    }
+  }
+
+  decode(reader: BitReader): number {
+    let code = 0;
+    for (let length = 1; length <= MAX_CODE_LENGTH; length++) {
+      code = code * 2 + reader.read(1);
+      const offset = code - this.firstCode[length];
+      if (offset >= 0 && offset < this.counts[length]) {
+        return this.symbols[this.firstIndex[length] + offset];
+      }
+    }
+    throw new Error('Corrupt bzip2 Huffman code');
+  }
+}
+
+function decodeBlock(reader: BitReader, maxBlockSize: number): Uint8Array {
+  if (reader.read(1)) {
+    throw new Error('Randomised bzip2 blocks are not supported');
+  }
+  const origPtr = reader.read(24);
+
+  // Which byte values occur, as a two-level bitmap
+  const used: number[] = [];
+  const ranges = reader.read(16);
+  for (let i = 0; i < 16; i++) {
+    if (ranges & (0x8000 >>> i)) {
+      const bits = reader.read(16);
+      for (let j = 0; j < 16; j++) {
+        if (bits & (0x8000 >>> j)) used.push(i * 16 + j);
+      }
+    }
+  }
+  if (used.length === 0) {
+    throw new Error('Corrupt bzip2 block: no symbols');
+  }
+  const alphaSize = used.length + 2;
+  const endOfBlock = alphaSize - 1;
+
+  const numTrees = reader.read(3);
+  const numSelectors = reader.read(15);
+  if (numTrees < 2 || numTrees > MAX_TREES || numSelectors === 0) {
+    throw new Error('Corrupt bzip2 block: bad tree count');
+  }
+
+  // Selectors are move-to-front coded in unary
+  const treeOrder = Array.from({ length: numTrees }, (_, i) => i);
+  const selectors: number[] = [];
+  for (let i = 0; i < numSelectors; i++) {
+    let j = 0;
+    while (reader.read(1)) {
+      if (++j >= numTrees) throw new Error('Corrupt bzip2 selector');
+    }
+    const tree = treeOrder[j];
+    treeOrder.splice(j, 1);
+    treeOrder.unshift(tree);
+    selectors.push(tree);
+  }
+
+  // Code lengths are delta coded from a 5-bit start
+  const tables: HuffmanTable[] = [];
+  for (let t = 0; t < numTrees; t++) {
+    const lengths: number[] = [];
+    let length = reader.read(5);
+    for (let symbol = 0; symbol < alphaSize; symbol++) {
+      while (reader.read(1)) {
+        length += reader.read(1) ? -1 : 1;
+      }
+      if (length < 1 || length > MAX_CODE_LENGTH) {
+        throw new Error('Corrupt bzip2 code length');
+      }
+      lengths.push(length);
+    }
+    tables.push(new HuffmanTable(lengths));
+  }
+
+  // Huffman, then run-length of zeros (RUNA/RUNB), then move-to-front
+  const block = new Uint8Array(maxBlockSize);
+  const counts = new Array<number>(256).fill(0);
+  const mtf = used.slice();
+  let size = 0;
+  let run = 0;
+  let runWeight = 1;
+  let group = 0;
+  let groupRemaining = 0;
+  let table = tables[0];
+
+  for (;;) {
+    if (groupRemaining === 0) {
+      if (group >= selectors.length) throw new Error('Corrupt bzip2 block: selectors exhausted');
+      table = tables[selectors[group++]];
+      groupRemaining = GROUP_SIZE;
+    }
+    groupRemaining--;
+    const symbol = table.decode(reader);
+
+    if (symbol === RUN_A || symbol === RUN_B) {
+      run += (symbol === RUN_A ? 1 : 2) * runWeight;
+      runWeight *= 2;
+      continue;
+    }
+
+    if (run > 0) {
+      if (size + run > maxBlockSize) throw new Error('Corrupt bzip2 block: too large');
+      const byte = mtf[0];
+      block.fill(byte, size, size + run);
+      counts[byte] += run;
+      size += run;
+      run = 0;
+      runWeight = 1;
+    }
+
+    if (symbol === endOfBlock) break;
+
+    if (size >= maxBlockSize) throw new Error('Corrupt bzip2 block: too large');
+    const index = symbol - 1;
+    const byte = mtf[index];
+    mtf.splice(index, 1);
+    mtf.unshift(byte);
+    block[size++] = byte;
+    counts[byte]++;
+  }
+
+  if (origPtr >= size) {
+    throw new Error('Corrupt bzip2 block: bad origin pointer');
+  }
+
+  // Inverse Burrows-Wheeler transform through the transformation vector
+  const tt = new Uint32Array(size);
+  let sum = 0;
+  for (let b = 0; b < 256; b++) {
+    const count = counts[b];
+    counts[b] = sum;
+    sum += count;
+  }
+  for (let i = 0; i < size; i++) {
+    tt[counts[block[i]]++] = i;
+  }
+
+  // Undo the initial run-length encoding: four equal bytes are followed by a repeat count
+  let output = new Uint8Array(size * 2);
+  let length = 0;
+  let pos = tt[origPtr];
+  let last = -1;
+  let repeat = 0;
+  for (let i = 0; i < size; i++) {
+    const byte = block[pos];
+    pos = tt[pos];
+
+    const needed = length + (repeat === 4 ? byte : 1);
+    if (needed > output.length) {
+      const grown = new Uint8Array(Math.max(needed, output.length * 2));
+      grown.set(output.subarray(0, length));
+      output = grown;
+    }
+
+    if (repeat === 4) {
+      output.fill(last, length, length + byte);
+      length += byte;
+      repeat = 0;
+      last = -1;
+      continue;
+    }
+    if (byte === last) {
+      repeat++;
+    } else {
+      last = byte;
+      repeat = 1;
+    }
+    output[length++] = byte;
+  }
+
+  return output.subarray(0, length);
+}
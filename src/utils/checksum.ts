@@ -0,0 +1,35 @@
+/**
+ * Compute the SHA-256 digest of a blob as a lowercase hex string
+ */
+export async function sha256Hex(blob: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Parse a sha256sum-style checksum file into a map of file name -> hash
+ * Format: "<hash>  <name>" or "<hash> *<name>" (binary mode), one per line
+ */
+export function parseChecksumFile(text: string): Map<string, string> {
+  const checksums = new Map<string, string>();
+
+  for (const line of text.split(/\r?\n/)) {
+    const match = line.trim().match(/^([a-fA-F0-9]{64})\s+\*?(.+)$/);
+    if (match) {
+      checksums.set(match[2].trim(), match[1].toLowerCase());
+    }
+  }
+
+  return checksums;
+}
+
+/**
+ * Extract the hash from a single-file checksum (e.g. "init_boot.img.sha256"),
+ * which may contain just the hash or a sha256sum-style line
+ */
+export function parseSingleChecksum(text: string): string | null {
+  const match = text.trim().match(/^([a-fA-F0-9]{64})\b/);
+  return match ? match[1].toLowerCase() : null;
+}
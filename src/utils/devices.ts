@@ -0,0 +1,64 @@
+import type { DeviceProfile } from '../types';
+
+const PATCHER_REPO = { owner: 'CruelKernel', name: 'oneplus_kernel_patcher' };
+
+const INIT_BOOT_ASSETS = {
+  patched: 'magisk_patched_init_boot.img',
+  stock: 'init_boot.img',
+};
+
+/**
+ * Supported devices. Detection, release lookup and the flash plan are all
+ * driven by the profile matching the firmware model code.
+ */
+export const DEVICE_PROFILES: DeviceProfile[] = [
+  {
+    id: 'oneplus-open',
+    name: 'OnePlus Open',
+    modelCodes: ['CPH2551', 'PHN110'],
+    partition: 'init_boot',
+    assets: INIT_BOOT_ASSETS,
+    releaseRepo: PATCHER_REPO,
+  },
+  {
+    id: 'oneplus-12',
+    name: 'OnePlus 12',
+    modelCodes: ['CPH2573', 'CPH2581', 'CPH2583', 'PJD110'],
+    partition: 'init_boot',
+    assets: INIT_BOOT_ASSETS,
+    releaseRepo: PATCHER_REPO,
+  },
+  {
+    id: 'oneplus-11',
+    name: 'OnePlus 11',
+    modelCodes: ['CPH2447', 'CPH2449', 'CPH2451', 'PHB110'],
+    partition: 'init_boot',
+    assets: INIT_BOOT_ASSETS,
+    releaseRepo: PATCHER_REPO,
+  },
+  {
+    id: 'oneplus-10-pro',
+    name: 'OnePlus 10 Pro',
+    modelCodes: ['NE2210', 'NE2211', 'NE2213', 'NE2215'],
+    partition: 'boot',
+    assets: {
+      patched: 'magisk_patched_boot.img',
+      stock: 'boot.img',
+    },
+    releaseRepo: PATCHER_REPO,
+  },
+];
+
+/**
+ * Find the profile for a firmware model code (e.g. "CPH2551")
+ */
+export function findDeviceProfile(modelCode: string): DeviceProfile | null {
+  return DEVICE_PROFILES.find(p => p.modelCodes.includes(modelCode)) || null;
+}
+
+/**
+ * Human-readable list of supported devices for error messages
+ */
+export function describeSupportedDevices(): string {
+  return DEVICE_PROFILES.map(p => `${p.name} (${p.modelCodes.join(', ')})`).join('; ');
+}
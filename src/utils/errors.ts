@@ -0,0 +1,157 @@
+import type { ErrorKind } from '../types';
+
+// What the user can do about each kind of failure
+const REMEDIATION: Record<ErrorKind, string | null> = {
+  cancelled: 'Select your device in the browser prompt to continue.',
+  'usb-busy':
+    'Another program is holding the USB connection. Stop any running adb server (adb kill-server), close Android Studio, scrcpy or other phone tools, then retry.',
+  unauthorized:
+    'Unlock the phone and accept the "Allow USB debugging?" prompt. If it does not appear, revoke USB debugging authorizations in Developer options and reconnect the cable.',
+  'bootloader-locked':
+    'Unlock the bootloader first with "fastboot flashing unlock" (this wipes the device), then start over.',
+  network:
+    'Check your internet connection. If GitHub is blocked on your network, enable a proxy under download sources or load the image from a file.',
+  'rate-limited':
+    'GitHub allows 60 requests an hour without a token. Wait until the limit resets, or add a personal access token under GitHub API settings, then retry.',
+  'github-auth':
+    'The GitHub access token is invalid or has expired. Replace or remove it under GitHub API settings, then retry.',
+  http: 'GitHub answered with an error, which is usually temporary. Wait a minute and retry.',
+  'checksum-mismatch':
+    'The image is corrupt or was altered in transit, and has been removed from the cache. Start over to download it again, ideally from another download source.',
+  'transfer-interrupted':
+    'The transfer stopped partway, usually because of a loose cable or a USB hub. Connect directly to the computer, keep the screen on and retry; the step starts over from the beginning.',
+  incompatible:
+    'The device, firmware and image do not fit together. Start over with an image built for the firmware your device runs.',
+  'preflight-failed':
+    'Fix the problems the pre-flight check reported, then start over. The device has not been modified.',
+  unknown: null,
+};
+
+// Whether running the failed step again can succeed. Cancellations, busy or
+// flaky connections and network trouble are transient; a locked bootloader, a
+// corrupt download or a mismatched image fail the same way every time.
+const RETRYABLE: Record<ErrorKind, boolean> = {
+  cancelled: true,
+  'usb-busy': true,
+  unauthorized: true,
+  'bootloader-locked': false,
+  network: true,
+  'rate-limited': true,
+  'github-auth': true,
+  http: true,
+  'checksum-mismatch': false,
+  'transfer-interrupted': true,
+  incompatible: false,
+  'preflight-failed': false,
+  unknown: true,
+};
+
+/**
+ * Failure with a known cause. Services throw the subclasses below where they
+ * can tell why an operation failed, so the UI can say what to do about it.
+ */
+export class FlashError extends Error {
+  readonly kind: ErrorKind;
+
+  constructor(kind: ErrorKind, message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = new.target.name;
+    this.kind = kind;
+  }
+}
+
+export class UserCancelledError extends FlashError {
+  constructor(message = 'No device selected', options?: ErrorOptions) {
+    super('cancelled', message, options);
+  }
+}
+
+export class UsbBusyError extends FlashError {
+  constructor(message = 'The USB interface is claimed by another program', options?: ErrorOptions) {
+    super('usb-busy', message, options);
+  }
+}
+
+export class AuthorizationError extends FlashError {
+  constructor(message = 'USB debugging was not authorized on the device', options?: ErrorOptions) {
+    super('unauthorized', message, options);
+  }
+}
+
+export class BootloaderLockedError extends FlashError {
+  constructor(message = 'Bootloader is locked. Please unlock it first before flashing.') {
+    super('bootloader-locked', message);
+  }
+}
+
+export class NetworkError extends FlashError {
+  constructor(message: string, options?: ErrorOptions) {
+    super('network', message, options);
+  }
+}
+
+export class RateLimitError extends FlashError {
+  readonly resetAt: number | null; // epoch ms, when GitHub reports it
+
+  constructor(resetAt: number | null) {
+    const reset = resetAt ? new Date(resetAt).toLocaleTimeString() : 'later';
+    super('rate-limited', `GitHub API rate limit exceeded, resets at ${reset}`);
+    this.resetAt = resetAt;
+  }
+}
+
+export class GitHubAuthError extends FlashError {
+  constructor(message = 'GitHub rejected the access token (401). Check or remove it in settings.') {
+    super('github-auth', message);
+  }
+}
+
+export class HttpError extends FlashError {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super('http', message);
+    this.status = status;
+  }
+}
+
+export class ChecksumMismatchError extends FlashError {
+  constructor(message = 'Checksum mismatch: the downloaded image is corrupt or was tampered with') {
+    super('checksum-mismatch', message);
+  }
+}
+
+export class TransferInterruptedError extends FlashError {
+  constructor(message: string, options?: ErrorOptions) {
+    super('transfer-interrupted', message, options);
+  }
+}
+
+export class IncompatibleError extends FlashError {
+  constructor(message: string) {
+    super('incompatible', message);
+  }
+}
+
+export class PreflightError extends FlashError {
+  constructor(message: string) {
+    super('preflight-failed', message);
+  }
+}
+
+export function errorKind(err: unknown): ErrorKind {
+  return err instanceof FlashError ? err.kind : 'unknown';
+}
+
+export function remediationFor(kind: ErrorKind): string | null {
+  return REMEDIATION[kind];
+}
+
+export function isRetryable(kind: ErrorKind): boolean {
+  return RETRYABLE[kind];
+}
+
+// WebUSB reports failures as DOMExceptions named after their cause
+export function isDomError(err: unknown, name: string): boolean {
+  return err instanceof DOMException && err.name === name;
+}
@@ -0,0 +1,114 @@
+import type { FastbootDiagnostics, FastbootPartition, PreflightFinding } from '../types';
+import { formatFileSize } from './version';
+
+// Variables that carry a partition name between the variable name and the value
+const PARTITION_VARS = ['partition-size', 'partition-type', 'is-logical'];
+
+function parseNumber(value: string | undefined): number | null {
+  if (!value) return null;
+  const n = Number(value.trim());
+  return Number.isFinite(n) ? n : null;
+}
+
+/**
+ * Parse the INFO lines of `getvar:all`. Lines look like "product: kona" or
+ * "partition-size:init_boot_a: 0x800000"; the host fastboot tool prefixes
+ * them with "(bootloader) ", which is stripped if present.
+ */
+export function parseGetvarAll(text: string): Record<string, string> {
+  const vars: Record<string, string> = {};
+
+  for (const raw of text.split('\n')) {
+    const line = raw.replace(/^\(bootloader\)\s*/, '').trim();
+    if (!line) continue;
+
+    const separator = line.lastIndexOf(': ');
+    const index = separator >= 0 ? separator : line.indexOf(':');
+    if (index <= 0) continue;
+
+    const key = line.slice(0, index).trim();
+    const value = line.slice(index + (separator >= 0 ? 2 : 1)).trim();
+    vars[key] = value;
+  }
+
+  return vars;
+}
+
+export function summarizeFastbootVars(vars: Record<string, string>): FastbootDiagnostics {
+  const partitions = new Map<string, FastbootPartition>();
+  for (const [key, value] of Object.entries(vars)) {
+    const [name, partition] = key.split(':', 2);
+    if (!partition || !PARTITION_VARS.includes(name)) continue;
+
+    const entry = partitions.get(partition) ?? {
+      name: partition,
+      size: null,
+      type: null,
+      logical: false,
+    };
+    if (name === 'partition-size') entry.size = parseNumber(value);
+    if (name === 'partition-type') entry.type = value || null;
+    if (name === 'is-logical') entry.logical = value === 'yes';
+    partitions.set(partition, entry);
+  }
+
+  return {
+    variables: vars,
+    product: vars['product'] || null,
+    secure: vars['secure'] || null,
+    unlocked: vars['unlocked'] || null,
+    currentSlot: vars['current-slot']?.replace(/^_/, '') || null,
+    slotCount: parseNumber(vars['slot-count']) ?? 0,
+    maxDownloadSize: parseNumber(vars['max-download-size']),
+    isUserspace: vars['is-userspace'] === 'yes',
+    partitions: [...partitions.values()].sort((a, b) => a.name.localeCompare(b.name)),
+  };
+}
+
+/**
+ * Check what the bootloader reports against the partitions about to be written.
+ * Blockers stop the flash; warnings are shown but do not.
+ */
+export function checkFlashPreconditions(
+  diagnostics: FastbootDiagnostics,
+  partitions: string[],
+  imageSize: number,
+): PreflightFinding[] {
+  const findings: PreflightFinding[] = [];
+
+  if (diagnostics.unlocked !== null && diagnostics.unlocked !== 'yes') {
+    findings.push({ severity: 'blocker', message: 'Bootloader is locked' });
+  }
+
+  if (diagnostics.isUserspace) {
+    findings.push({
+      severity: 'warning',
+      message: 'Device is in fastbootd (userspace fastboot) rather than the bootloader',
+    });
+  }
+
+  for (const name of partitions) {
+    const partition = diagnostics.partitions.find(p => p.name === name);
+    if (!partition || partition.size === null) {
+      findings.push({
+        severity: 'warning',
+        message: `Bootloader does not report the size of ${name}`,
+      });
+      continue;
+    }
+    if (imageSize > partition.size) {
+      findings.push({
+        severity: 'blocker',
+        message: `Image (${formatFileSize(imageSize)}) is larger than the ${name} partition (${formatFileSize(partition.size)})`,
+      });
+    }
+    if (partition.logical) {
+      findings.push({
+        severity: 'warning',
+        message: `${name} is a logical partition, which is unexpected for a boot image`,
+      });
+    }
+  }
+
+  return findings;
+}
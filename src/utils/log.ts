@@ -0,0 +1,98 @@
+import type { LogEntry, LogLevel } from '../types';
+
+// Data keys whose values identify a specific device: the ADB serial, per-device
+// bootloader variables from getvar:all, and the build fingerprints of the device
+// and of loaded OTA packages
+const IDENTIFIER_KEYS = new Set([
+  'serial',
+  'serialno',
+  'imei',
+  'meid',
+  'cpuid',
+  'uid',
+  'fingerprint',
+  'postBuild',
+]);
+const REDACTED = '[redacted]';
+
+function collectIdentifiers(value: unknown, found: Set<string>): void {
+  if (Array.isArray(value)) {
+    value.forEach(item => collectIdentifiers(item, found));
+  } else if (value && typeof value === 'object') {
+    for (const [key, item] of Object.entries(value)) {
+      if (IDENTIFIER_KEYS.has(key) && typeof item === 'string' && item) {
+        found.add(item);
+      } else {
+        collectIdentifiers(item, found);
+      }
+    }
+  }
+}
+
+function redactString(text: string, identifiers: Set<string>): string {
+  let result = text;
+  for (const identifier of identifiers) {
+    result = result.split(identifier).join(REDACTED);
+  }
+  return result;
+}
+
+function redactValue(value: unknown, identifiers: Set<string>): unknown {
+  if (typeof value === 'string') {
+    return redactString(value, identifiers);
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redactValue(item, identifiers));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        IDENTIFIER_KEYS.has(key) ? REDACTED : redactValue(item, identifiers),
+      ]),
+    );
+  }
+  return value;
+}
+
+/**
+ * Replace device identifiers in entry data, and anywhere they were
+ * interpolated into messages, with a placeholder
+ */
+export function redactLogEntries(entries: LogEntry[]): LogEntry[] {
+  const identifiers = new Set<string>();
+  entries.forEach(entry => collectIdentifiers(entry.data, identifiers));
+
+  return entries.map(entry => ({
+    ...entry,
+    message: redactString(entry.message, identifiers),
+    data: entry.data && (redactValue(entry.data, identifiers) as Record<string, unknown>),
+  }));
+}
+
+const LINE_PREFIXES: Partial<Record<LogLevel, string>> = {
+  warn: 'Warning: ',
+  error: 'Error: ',
+};
+
+// One line per entry for the on-screen log
+export function formatLogLine(entry: LogEntry): string {
+  const prefix = LINE_PREFIXES[entry.level] ?? '';
+  return `[${new Date(entry.timestamp).toLocaleTimeString()}] ${prefix}${entry.message}`;
+}
+
+export function formatLogText(entries: LogEntry[]): string {
+  const lines = entries.map(entry => {
+    const line = `${new Date(entry.timestamp).toISOString()} ${entry.level.toUpperCase().padEnd(5)} [${entry.phase}] ${entry.message}`;
+    return entry.data ? `${line}\n    ${JSON.stringify(entry.data)}` : line;
+  });
+  return [`User agent: ${navigator.userAgent}`, '', ...lines].join('\n');
+}
+
+export function formatLogJson(entries: LogEntry[]): string {
+  return JSON.stringify(
+    { exportedAt: new Date().toISOString(), userAgent: navigator.userAgent, entries },
+    null,
+    2,
+  );
+}
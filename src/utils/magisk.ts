@@ -0,0 +1,61 @@
+import { extractZipEntry, listZipEntries } from './zip';
+
+// Scripts and payloads the patch script expects next to it
+const ASSET_FILES = ['boot_patch.sh', 'util_functions.sh', 'stub.apk'];
+
+// Files without which boot_patch.sh cannot run
+const REQUIRED_TOOLS = [
+  'boot_patch.sh',
+  'util_functions.sh',
+  'magiskboot',
+  'magiskinit',
+  'busybox',
+];
+
+// Older releases ship a separate 32-bit daemon that 64-bit patches embed as well
+const MAGISK32_ENTRY = 'lib/armeabi-v7a/libmagisk32.so';
+
+export interface MagiskTool {
+  name: string; // file name on the device, e.g. "magiskboot"
+  blob: Blob;
+}
+
+/**
+ * Pull the patching tools for the device's ABI out of a Magisk APK, named the
+ * way the Magisk app lays them out before running boot_patch.sh: native
+ * binaries are packaged as lib/<abi>/lib<name>.so.
+ */
+export async function extractMagiskTools(apk: Blob, abi: string): Promise<MagiskTool[]> {
+  const entries = await listZipEntries(apk);
+  const wanted = new Map<string, string>(); // entry name -> tool name
+
+  for (const entry of entries) {
+    const asset = /^assets\/(.+)$/.exec(entry.name);
+    if (asset && ASSET_FILES.includes(asset[1])) {
+      wanted.set(entry.name, asset[1]);
+      continue;
+    }
+    const lib = /^lib\/([^/]+)\/lib(.+)\.so$/.exec(entry.name);
+    if (lib && lib[1] === abi) {
+      wanted.set(entry.name, lib[2]);
+    }
+  }
+  if (abi === 'arm64-v8a' && entries.some(e => e.name === MAGISK32_ENTRY)) {
+    wanted.set(MAGISK32_ENTRY, 'magisk32');
+  }
+
+  const names = new Set(wanted.values());
+  const missing = REQUIRED_TOOLS.filter(name => !names.has(name));
+  if (missing.length > 0) {
+    throw new Error(`Magisk APK has no ${missing.join(', ')} for ${abi}`);
+  }
+
+  const tools: MagiskTool[] = [];
+  for (const entry of entries) {
+    const name = wanted.get(entry.name);
+    if (name) {
+      tools.push({ name, blob: await extractZipEntry(apk, entry) });
+    }
+  }
+  return tools;
+}
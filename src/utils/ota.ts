@@ -0,0 +1,259 @@
+import { extractZipEntry, listZipEntries } from './zip';
+import { decompressXz } from './xz';
+import { decompressBzip2 } from './bzip2';
+import { sha256Hex } from './checksum';
+import { parseVersion } from './version';
+
+const PAYLOAD_ENTRY = 'payload.bin';
+const METADATA_ENTRY = 'META-INF/com/android/metadata';
+
+const PAYLOAD_MAGIC = 'CrAU';
+const PAYLOAD_VERSION = 2;
+// magic, file_format_version (u64), manifest_size (u64), metadata_signature_size (u32)
+const PAYLOAD_HEADER_SIZE = 24;
+const DEFAULT_BLOCK_SIZE = 4096;
+
+// InstallOperation.Type values a full payload uses
+const OP_REPLACE = 0;
+const OP_REPLACE_BZ = 1;
+const OP_ZERO = 6;
+const OP_DISCARD = 7;
+const OP_REPLACE_XZ = 8;
+
+const WIRE_VARINT = 0;
+const WIRE_FIXED64 = 1;
+const WIRE_BYTES = 2;
+const WIRE_FIXED32 = 5;
+
+interface Extent {
+  startBlock: number;
+  numBlocks: number;
+}
+
+interface InstallOperation {
+  type: number;
+  dataOffset: number;
+  dataLength: number;
+  dstExtents: Extent[];
+}
+
+export interface OtaPartition {
+  image: Blob;
+  // Build the package installs, from the OTA metadata
+  metadata: Record<string, string>;
+  // false when the manifest carries no hash for the partition
+  verified: boolean;
+}
+
+type ProtoField = { field: number; value: number | Uint8Array };
+
+/**
+ * Decode the top level of a protobuf message. Varints come back as numbers,
+ * which is exact for every size and offset a payload can hold; length-delimited
+ * fields come back as bytes for the caller to decode further.
+ */
+function decodeProto(data: Uint8Array): ProtoField[] {
+  const fields: ProtoField[] = [];
+  let offset = 0;
+
+  const readVarint = () => {
+    let value = 0;
+    for (let shift = 0; ; shift += 7) {
+      const byte = data[offset++];
+      if (byte === undefined) throw new Error('Truncated payload manifest');
+      value += (byte & 0x7f) * 2 ** shift;
+      if ((byte & 0x80) === 0) return value;
+    }
+  };
+
+  while (offset < data.length) {
+    const key = readVarint();
+    const field = Math.floor(key / 8);
+    switch (key & 0x07) {
+      case WIRE_VARINT:
+        fields.push({ field, value: readVarint() });
+        break;
+      case WIRE_FIXED64:
+        offset += 8;
+        break;
+      case WIRE_BYTES: {
+        const length = readVarint();
+        fields.push({ field, value: data.subarray(offset, offset + length) });
+        offset += length;
+        break;
+      }
+      case WIRE_FIXED32:
+        offset += 4;
+        break;
+      default:
+        throw new Error('Unsupported protobuf wire type in payload manifest');
+    }
+  }
+
+  return fields;
+}
+
+function numberField(fields: ProtoField[], field: number): number | null {
+  const found = fields.find(f => f.field === field && typeof f.value === 'number');
+  return found ? (found.value as number) : null;
+}
+
+function bytesFields(fields: ProtoField[], field: number): Uint8Array[] {
+  return fields
+    .filter(f => f.field === field && f.value instanceof Uint8Array)
+    .map(f => f.value as Uint8Array);
+}
+
+function decodeOperation(data: Uint8Array): InstallOperation {
+  // InstallOperation: type = 1, data_offset = 2, data_length = 3, dst_extents = 6
+  const fields = decodeProto(data);
+  return {
+    type: numberField(fields, 1) ?? OP_REPLACE,
+    dataOffset: numberField(fields, 2) ?? 0,
+    dataLength: numberField(fields, 3) ?? 0,
+    dstExtents: bytesFields(fields, 6).map(extent => {
+      // Extent: start_block = 1, num_blocks = 2
+      const extentFields = decodeProto(extent);
+      return {
+        startBlock: numberField(extentFields, 1) ?? 0,
+        numBlocks: numberField(extentFields, 2) ?? 0,
+      };
+    }),
+  };
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes)
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Parse META-INF/com/android/metadata, a list of key=value lines
+ */
+export function parseOtaMetadata(text: string): Record<string, string> {
+  const metadata: Record<string, string> = {};
+  for (const line of text.split(/\r?\n/)) {
+    const index = line.indexOf('=');
+    if (index > 0) {
+      metadata[line.slice(0, index).trim()] = line.slice(index + 1).trim();
+    }
+  }
+  return metadata;
+}
+
+/**
+ * The firmware display ID the package installs. OnePlus packages carry it
+ * in a vendor key alongside the AOSP ones, so any value shaped like one is taken.
+ */
+export function findOtaFirmwareVersion(metadata: Record<string, string>): string | null {
+  return Object.values(metadata).find(value => parseVersion(value) !== null) ?? null;
+}
+
+/**
+ * Extract one partition image from a full OTA package by replaying the
+ * payload.bin operations that write it. Incremental packages are rejected:
+ * their operations patch the partitions already on the device. The signal is
+ * checked between operations.
+ */
+export async function extractOtaPartition(
+  ota: Blob,
+  partition: string,
+  signal?: AbortSignal,
+): Promise<OtaPartition> {
+  const entries = await listZipEntries(ota);
+  const payloadEntry = entries.find(e => e.name === PAYLOAD_ENTRY);
+  if (!payloadEntry) {
+    throw new Error('Not an A/B OTA package (no payload.bin)');
+  }
+  const metadataEntry = entries.find(e => e.name === METADATA_ENTRY);
+  const metadata = metadataEntry
+    ? parseOtaMetadata(await (await extractZipEntry(ota, metadataEntry)).text())
+    : {};
+
+  const payload = await extractZipEntry(ota, payloadEntry);
+  const header = new DataView(await payload.slice(0, PAYLOAD_HEADER_SIZE).arrayBuffer());
+  const magic = String.fromCharCode(...new Uint8Array(header.buffer, 0, 4));
+  if (magic !== PAYLOAD_MAGIC) {
+    throw new Error('payload.bin is not an update_engine payload');
+  }
+  const version = Number(header.getBigUint64(4));
+  if (version !== PAYLOAD_VERSION) {
+    throw new Error(`Unsupported payload version ${version}`);
+  }
+  const manifestSize = Number(header.getBigUint64(12));
+  const signatureSize = header.getUint32(20);
+  const manifestOffset = PAYLOAD_HEADER_SIZE;
+  const dataOffset = manifestOffset + manifestSize + signatureSize;
+
+  // DeltaArchiveManifest: block_size = 3, partitions = 13
+  const manifest = decodeProto(
+    new Uint8Array(
+      await payload.slice(manifestOffset, manifestOffset + manifestSize).arrayBuffer(),
+    ),
+  );
+  const blockSize = numberField(manifest, 3) ?? DEFAULT_BLOCK_SIZE;
+
+  // PartitionUpdate: partition_name = 1, new_partition_info = 7, operations = 8
+  const update = bytesFields(manifest, 13)
+    .map(decodeProto)
+    .find(fields => {
+      const [name] = bytesFields(fields, 1);
+      return name && new TextDecoder().decode(name) === partition;
+    });
+  if (!update) {
+    throw new Error(`The OTA package does not contain ${partition}`);
+  }
+
+  // PartitionInfo: size = 1, hash = 2
+  const [info] = bytesFields(update, 7).map(decodeProto);
+  const operations = bytesFields(update, 8).map(decodeOperation);
+  const size =
+    (info && numberField(info, 1)) ??
+    operations.reduce(
+      (end, op) =>
+        Math.max(end, ...op.dstExtents.map(e => (e.startBlock + e.numBlocks) * blockSize)),
+      0,
+    );
+
+  const image = new Uint8Array(size);
+  for (const op of operations) {
+    signal?.throwIfAborted();
+    if (op.type === OP_ZERO || op.type === OP_DISCARD) continue; // the image starts zeroed
+
+    const start = dataOffset + op.dataOffset;
+    const blob = new Uint8Array(await payload.slice(start, start + op.dataLength).arrayBuffer());
+    let data: Uint8Array;
+    switch (op.type) {
+      case OP_REPLACE:
+        data = blob;
+        break;
+      case OP_REPLACE_XZ:
+        data = decompressXz(blob);
+        break;
+      case OP_REPLACE_BZ:
+        data = decompressBzip2(blob);
+        break;
+      default:
+        throw new Error(
+          `${partition} is patched from the previous build (operation ${op.type}); an incremental OTA cannot be used, a full OTA package is needed`,
+        );
+    }
+
+    // Data fills the destination extents in order
+    let consumed = 0;
+    for (const extent of op.dstExtents) {
+      const length = Math.min(extent.numBlocks * blockSize, data.length - consumed);
+      image.set(data.subarray(consumed, consumed + length), extent.startBlock * blockSize);
+      consumed += length;
+    }
+  }
+
+  const result = new Blob([image]);
+  const [expectedHash] = info ? bytesFields(info, 2) : [];
+  if (expectedHash && toHex(expectedHash) !== (await sha256Hex(result))) {
+    throw new Error(`Extracted ${partition} does not match the hash in the payload manifest`);
+  }
+
+  return { image: result, metadata, verified: expectedHash !== undefined };
+}
@@ -0,0 +1,122 @@
+import type { BootImageInfo, DevicePreflightInfo, PreflightCheck } from '../types';
+
+// Below these battery levels a flash is refused, or flagged, unless charging
+const BATTERY_FAIL_LEVEL = 15;
+const BATTERY_WARN_LEVEL = 30;
+
+// BatteryManager.BATTERY_STATUS_CHARGING and BATTERY_STATUS_FULL
+const CHARGING_STATUSES = ['2', '5'];
+
+/**
+ * Read the level and charging state from `dumpsys battery` output
+ */
+export function parseBatteryStatus(dumpsys: string): { level: number | null; charging: boolean } {
+  const level = /^\s*level:\s*(\d+)/m.exec(dumpsys);
+  const status = /^\s*status:\s*(\d+)/m.exec(dumpsys);
+  return {
+    level: level ? parseInt(level[1], 10) : null,
+    charging: status ? CHARGING_STATUSES.includes(status[1]) : false,
+  };
+}
+
+// Android only reports the lock state through properties that rooted devices
+// commonly spoof, so they never block on their own: fastboot reads the real
+// state before anything is written
+function lockCheck(info: DevicePreflightInfo): PreflightCheck {
+  const label = 'Bootloader unlocked';
+  const state = info.verifiedBootState;
+
+  if (info.flashLocked === '0' || state === 'orange') {
+    return { id: 'bootloader', label, status: 'pass', detail: `Verified boot state: ${state}` };
+  }
+  if (info.flashLocked === '1' || state === 'green') {
+    return {
+      id: 'bootloader',
+      label,
+      status: 'warn',
+      detail:
+        'Android reports a locked bootloader. If it is really locked, unlock it first; the lock state is checked again in fastboot before flashing.',
+    };
+  }
+  return {
+    id: 'bootloader',
+    label,
+    status: 'warn',
+    detail: 'The device does not report its lock state. It will be checked again in fastboot.',
+  };
+}
+
+function batteryCheck(info: DevicePreflightInfo): PreflightCheck {
+  const label = 'Battery level';
+  const level = info.batteryLevel;
+
+  if (level === null) {
+    return { id: 'battery', label, status: 'warn', detail: 'Battery level unavailable' };
+  }
+
+  const detail = `${level}%${info.charging ? ', charging' : ''}`;
+  if (level < BATTERY_FAIL_LEVEL && !info.charging) {
+    return {
+      id: 'battery',
+      label,
+      status: 'fail',
+      detail: `${detail}. Charge to at least ${BATTERY_FAIL_LEVEL}% before flashing.`,
+    };
+  }
+  if (level < BATTERY_WARN_LEVEL) {
+    return { id: 'battery', label, status: 'warn', detail: `${detail}. Consider charging first.` };
+  }
+  return { id: 'battery', label, status: 'pass', detail };
+}
+
+function slotCheck(info: DevicePreflightInfo): PreflightCheck {
+  const label = 'Active slot';
+  return info.activeSlot
+    ? { id: 'slot', label, status: 'pass', detail: `Slot ${info.activeSlot}` }
+    : {
+        id: 'slot',
+        label,
+        status: 'warn',
+        detail: 'The device does not report an A/B slot',
+      };
+}
+
+// Security patch levels are compared by month: the boot image header only stores YYYY-MM
+function patchLevelCheck(
+  info: DevicePreflightInfo,
+  bootImageInfo: BootImageInfo | null,
+): PreflightCheck {
+  const label = 'Security patch level';
+  const image = bootImageInfo?.osPatchLevel ?? null;
+  const device = info.securityPatch?.slice(0, 7) ?? null;
+
+  if (!image || !device) {
+    return {
+      id: 'patch-level',
+      label,
+      status: 'warn',
+      detail: `Could not compare (device ${device ?? 'unknown'}, image ${image ?? 'unknown'})`,
+    };
+  }
+  if (image !== device) {
+    return {
+      id: 'patch-level',
+      label,
+      status: 'warn',
+      detail: `Image is ${image} but the device is on ${device}. The image may be from another build.`,
+    };
+  }
+  return { id: 'patch-level', label, status: 'pass', detail: device };
+}
+
+export function runDeviceChecks(
+  info: DevicePreflightInfo,
+  bootImageInfo: BootImageInfo | null,
+): PreflightCheck[] {
+  return [
+    lockCheck(info),
+    batteryCheck(info),
+    slotCheck(info),
+    patchLevelCheck(info, bootImageInfo),
+  ];
+}
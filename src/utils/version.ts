@@ -1,40 +1,86 @@
 export interface ParsedVersion {
-  modelCode: string; // "CPH2551"
+  modelCode: string; // "CPH2551" or "PJD110"
   version: string; // "15.0.0.822"
-  regionCode: string; // "EX01"
+  versionParts: number[]; // [15, 0, 0, 822]
+  osMajor: number; // 15
+  build: number; // 822, the last version component
+  regionCode: string; // "EX01_2", everything inside the parentheses
+  region: string; // "EX01"
+  regionRevision: number; // 2 for "EX01_2", 0 for "EX01"
   fullVersion: string; // Original string
 }
 
 /**
- * Parse a OnePlus firmware version string
- * Format: CPH2551_15.0.0.822(EX01)
+ * How two firmware versions differ, from most to least significant
+ */
+export type VersionDifference = 'model' | 'region' | 'major' | 'build' | 'region-revision' | 'same';
+
+/**
+ * Parse a OnePlus / ColorOS firmware display ID
+ * Formats: CPH2551_15.0.0.822(EX01), PJD110_15.0.0.600(CN01), CPH2581_14.0.0.800(EX01_2)
+ * Whitespace anywhere in the string is ignored.
  */
 export function parseVersion(versionString: string): ParsedVersion | null {
-  // Pattern: CPH2551_15.0.0.822(EX01)
-  const match = versionString.match(/^(CPH\d+)_(\d+\.\d+\.\d+\.\d+)\(([A-Z0-9]+)\)$/);
+  const normalized = versionString.replace(/\s+/g, '').toUpperCase();
+  const match = normalized.match(
+    /^([A-Z]{2,3}\d{3,4})_(\d+(?:\.\d+){2,3})\(([A-Z0-9]+)(?:_(\d+))?\)$/,
+  );
 
   if (!match) return null;
 
+  const versionParts = match[2].split('.').map(n => parseInt(n, 10));
+
   return {
     modelCode: match[1],
     version: match[2],
-    regionCode: match[3],
+    versionParts,
+    osMajor: versionParts[0],
+    build: versionParts[versionParts.length - 1],
+    regionCode: match[4] ? `${match[3]}_${match[4]}` : match[3],
+    region: match[3],
+    regionRevision: match[4] ? parseInt(match[4], 10) : 0,
     fullVersion: versionString,
   };
 }
 
 /**
- * Check if the device model is OnePlus Open
+ * Order two versions of the same model and region: negative if a is older,
+ * positive if a is newer, 0 if identical. Model and region are not compared.
+ */
+export function compareVersions(a: ParsedVersion, b: ParsedVersion): number {
+  const length = Math.max(a.versionParts.length, b.versionParts.length);
+  for (let i = 0; i < length; i++) {
+    const diff = (a.versionParts[i] ?? 0) - (b.versionParts[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return a.regionRevision - b.regionRevision;
+}
+
+/**
+ * Describe the most significant difference between two versions
  */
-export function isOnePlusOpen(modelCode: string): boolean {
-  return modelCode === 'CPH2551';
+export function describeVersionDifference(a: ParsedVersion, b: ParsedVersion): VersionDifference {
+  if (a.modelCode !== b.modelCode) return 'model';
+  if (a.region !== b.region) return 'region';
+  if (a.osMajor !== b.osMajor) return 'major';
+  if (compareVersions({ ...a, regionRevision: 0 }, { ...b, regionRevision: 0 }) !== 0) {
+    return 'build';
+  }
+  if (a.regionRevision !== b.regionRevision) return 'region-revision';
+  return 'same';
 }
 
 /**
- * Check if two version strings match exactly
+ * Check if a release tag targets exactly the device firmware version.
+ * Falls back to a plain string comparison when either side does not parse.
  */
 export function versionsMatch(deviceVersion: string, releaseTag: string): boolean {
-  return deviceVersion.trim() === releaseTag.trim();
+  const device = parseVersion(deviceVersion);
+  const release = parseVersion(releaseTag);
+  if (!device || !release) {
+    return deviceVersion.trim() === releaseTag.trim();
+  }
+  return describeVersionDifference(device, release) === 'same';
 }
 
 /**
@@ -45,3 +91,15 @@ export function formatFileSize(bytes: number): string {
   if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
   return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
 }
+
+/**
+ * Format how long ago a timestamp was, for display
+ */
+export function formatAge(timestamp: number, now: number = Date.now()): string {
+  const minutes = Math.floor((now - timestamp) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} h ago`;
+  return `${Math.floor(hours / 24)} d ago`;
+}
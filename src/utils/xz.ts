@@ -0,0 +1,402 @@
+const XZ_MAGIC = [0xfd, 0x37, 0x7a, 0x58, 0x5a, 0x00];
+const STREAM_HEADER_SIZE = 12;
+const LZMA2_FILTER_ID = 0x21;
+
+// Size of the integrity check after each block, indexed by check type
+const CHECK_SIZES = [0, 4, 4, 4, 8, 8, 8, 16, 16, 16, 32, 32, 32, 64, 64, 64];
+
+const NUM_STATES = 12;
+const MATCH_MIN_LEN = 2;
+const END_POS_MODEL_INDEX = 14;
+const NUM_FULL_DISTANCES = 128;
+const NUM_ALIGN_BITS = 4;
+const PROB_INIT = 1024;
+
+/**
+ * Decompress an .xz stream, as used by REPLACE_XZ payload operations.
+ * Only the LZMA2 filter is supported, which is all update_engine produces;
+ * block checks are skipped since payload data carries its own SHA-256.
+ */
+export function decompressXz(data: Uint8Array): Uint8Array {
+  if (XZ_MAGIC.some((byte, i) => data[i] !== byte)) {
+    throw new Error('Not an XZ stream');
+  }
+  const checkSize = CHECK_SIZES[data[7] & 0x0f];
+  const output = new OutputBuffer();
+
+  let offset = STREAM_HEADER_SIZE;
+  // A zero byte where a block header would start begins the index
+  while (data[offset] !== 0) {
+    const headerSize = (data[offset] + 1) * 4;
+    const flags = data[offset + 1];
+    if ((flags & 0x03) !== 0) {
+      throw new Error('XZ filter chains are not supported');
+    }
+
+    let field = offset + 2;
+    const readVarint = () => {
+      let value = 0;
+      for (let shift = 0; ; shift += 7) {
+        const byte = data[field++];
+        value += (byte & 0x7f) * 2 ** shift;
+        if ((byte & 0x80) === 0) return value;
+      }
+    };
+    if (flags & 0x40) readVarint(); // compressed size
+    if (flags & 0x80) readVarint(); // uncompressed size
+    if (readVarint() !== LZMA2_FILTER_ID) {
+      throw new Error('Only the LZMA2 XZ filter is supported');
+    }
+
+    offset += headerSize;
+    offset = decodeLzma2(data, offset, output);
+    offset = align4(offset) + checkSize;
+  }
+
+  return output.result();
+}
+
+function align4(n: number): number {
+  return (n + 3) & ~3;
+}
+
+/**
+ * Growable output that doubles as the LZMA dictionary: a whole payload
+ * operation is decoded in memory, so matches read straight from it
+ */
+class OutputBuffer {
+  data = new Uint8Array(1 << 20);
+  length = 0;
+
+  ensure(extra: number): void {
+    if (this.length + extra <= this.data.length) return;
+    let size = this.data.length * 2;
+    while (size < this.length + extra) size *= 2;
+    const grown = new Uint8Array(size);
+    grown.set(this.data.subarray(0, this.length));
+    this.data = grown;
+  }
+
+  result(): Uint8Array {
+    return this.data.slice(0, this.length);
+  }
+}
+
+/**
+ * Decode LZMA2 chunks starting at offset, returning the offset after the end marker
+ */
+function decodeLzma2(data: Uint8Array, start: number, output: OutputBuffer): number {
+  let offset = start;
+  let decoder: LzmaDecoder | null = null;
+  let dictStart = output.length;
+
+  for (;;) {
+    const control = data[offset++];
+    if (control === 0x00) return offset;
+
+    if (control === 0x01 || control === 0x02) {
+      // Uncompressed chunk, resetting the dictionary if 0x01
+      const size = ((data[offset] << 8) | data[offset + 1]) + 1;
+      offset += 2;
+      if (control === 0x01) dictStart = output.length;
+      output.ensure(size);
+      output.data.set(data.subarray(offset, offset + size), output.length);
+      output.length += size;
+      offset += size;
+      continue;
+    }
+    if (control < 0x80) {
+      throw new Error(`Invalid LZMA2 control byte 0x${control.toString(16)}`);
+    }
+
+    const unpackedSize = ((control & 0x1f) << 16) + ((data[offset] << 8) | data[offset + 1]) + 1;
+    const packedSize = ((data[offset + 2] << 8) | data[offset + 3]) + 1;
+    offset += 4;
+
+    const reset = (control >> 5) & 0x03;
+    if (reset === 3) dictStart = output.length;
+    if (reset >= 2) {
+      decoder = new LzmaDecoder(data[offset++]);
+    } else if (reset === 1) {
+      decoder?.resetState();
+    }
+    if (!decoder) {
+      throw new Error('LZMA2 chunk without properties');
+    }
+
+    decoder.decodeChunk(data, offset, unpackedSize, output, dictStart);
+    offset += packedSize;
+  }
+}
+
+class RangeDecoder {
+  private data: Uint8Array;
+  private offset: number;
+  private range = 0xffffffff;
+  private code = 0;
+
+  constructor(data: Uint8Array, offset: number) {
+    this.data = data;
+    this.offset = offset + 1; // the first byte is always zero
+    for (let i = 0; i < 4; i++) {
+      this.code = ((this.code << 8) | this.data[this.offset++]) >>> 0;
+    }
+  }
+
+  private normalize(): void {
+    if (this.range < 0x1000000) {
+      this.range = (this.range << 8) >>> 0;
+      this.code = ((this.code << 8) | this.data[this.offset++]) >>> 0;
+    }
+  }
+
+  decodeBit(probs: Uint16Array, index: number): number {
+    const prob = probs[index];
+    const bound = (this.range >>> 11) * prob;
+    let bit: number;
+    if (this.code < bound) {
+      this.range = bound;
+      probs[index] = prob + ((2048 - prob) >>> 5);
+      bit = 0;
+    } else {
+      this.range -= bound;
+      this.code -= bound;
+      probs[index] = prob - (prob >>> 5);
+      bit = 1;
+    }
+    this.normalize();
+    return bit;
+  }
+
+  decodeDirectBits(count: number): number {
+    let result = 0;
+    for (let i = 0; i < count; i++) {
+      this.range >>>= 1;
+      let bit = 0;
+      if (this.code >= this.range) {
+        this.code -= this.range;
+        bit = 1;
+      }
+      result = result * 2 + bit;
+      this.normalize();
+    }
+    return result;
+  }
+
+  bitTree(probs: Uint16Array, base: number, numBits: number): number {
+    let m = 1;
+    for (let i = 0; i < numBits; i++) {
+      m = (m << 1) | this.decodeBit(probs, base + m);
+    }
+    return m - (1 << numBits);
+  }
+
+  reverseBitTree(probs: Uint16Array, base: number, numBits: number): number {
+    let m = 1;
+    let symbol = 0;
+    for (let i = 0; i < numBits; i++) {
+      const bit = this.decodeBit(probs, base + m);
+      m = (m << 1) | bit;
+      symbol |= bit << i;
+    }
+    return symbol;
+  }
+}
+
+class LengthDecoder {
+  private choice = new Uint16Array(2);
+  private low = new Uint16Array(16 << 3);
+  private mid = new Uint16Array(16 << 3);
+  private high = new Uint16Array(256);
+
+  constructor() {
+    for (const probs of [this.choice, this.low, this.mid, this.high]) probs.fill(PROB_INIT);
+  }
+
+  decode(rc: RangeDecoder, posState: number): number {
+    if (rc.decodeBit(this.choice, 0) === 0) {
+      return rc.bitTree(this.low, posState << 3, 3);
+    }
+    if (rc.decodeBit(this.choice, 1) === 0) {
+      return 8 + rc.bitTree(this.mid, posState << 3, 3);
+    }
+    return 16 + rc.bitTree(this.high, 0, 8);
+  }
+}
+
+interface LzmaProbabilities {
+  literals: Uint16Array;
+  isMatch: Uint16Array;
+  isRep: Uint16Array;
+  isRepG0: Uint16Array;
+  isRepG1: Uint16Array;
+  isRepG2: Uint16Array;
+  isRep0Long: Uint16Array;
+  posSlot: Uint16Array;
+  posDecoders: Uint16Array;
+  align: Uint16Array;
+  len: LengthDecoder;
+  repLen: LengthDecoder;
+}
+
+function createProbabilities(lc: number, lp: number): LzmaProbabilities {
+  const probs = (size: number) => new Uint16Array(size).fill(PROB_INIT);
+  return {
+    literals: probs(0x300 << (lc + lp)),
+    isMatch: probs(NUM_STATES << 4),
+    isRep: probs(NUM_STATES),
+    isRepG0: probs(NUM_STATES),
+    isRepG1: probs(NUM_STATES),
+    isRepG2: probs(NUM_STATES),
+    isRep0Long: probs(NUM_STATES << 4),
+    posSlot: probs(4 << 6),
+    posDecoders: probs(1 + NUM_FULL_DISTANCES - END_POS_MODEL_INDEX),
+    align: probs(1 << NUM_ALIGN_BITS),
+    len: new LengthDecoder(),
+    repLen: new LengthDecoder(),
+  };
+}
+
+class LzmaDecoder {
+  private lc: number;
+  private lp: number;
+  private pb: number;
+  private probs: LzmaProbabilities;
+  private state = 0;
+  private reps = [0, 0, 0, 0];
+
+  // lc, lp and pb are packed into one byte as (pb * 5 + lp) * 9 + lc
+  constructor(properties: number) {
+    if (properties >= 9 * 5 * 5) {
+      throw new Error('Invalid LZMA properties');
+    }
+    this.lc = properties % 9;
+    this.lp = Math.floor(properties / 9) % 5;
+    this.pb = Math.floor(properties / 45);
+    this.probs = createProbabilities(this.lc, this.lp);
+  }
+
+  resetState(): void {
+    this.probs = createProbabilities(this.lc, this.lp);
+    this.state = 0;
+    this.reps = [0, 0, 0, 0];
+  }
+
+  decodeChunk(
+    data: Uint8Array,
+    offset: number,
+    unpackedSize: number,
+    output: OutputBuffer,
+    dictStart: number,
+  ): void {
+    const rc = new RangeDecoder(data, offset);
+    const end = output.length + unpackedSize;
+    const posMask = (1 << this.pb) - 1;
+    output.ensure(unpackedSize);
+    const out = output.data;
+    let pos = output.length;
+
+    while (pos < end) {
+      const posState = (pos - dictStart) & posMask;
+
+      if (rc.decodeBit(this.probs.isMatch, (this.state << 4) + posState) === 0) {
+        out[pos] = this.decodeLiteral(rc, out, pos, dictStart);
+        pos++;
+        this.state = this.state < 4 ? 0 : this.state < 10 ? this.state - 3 : this.state - 6;
+        continue;
+      }
+
+      let len: number;
+      if (rc.decodeBit(this.probs.isRep, this.state) === 1) {
+        if (pos === dictStart) throw new Error('Corrupt LZMA data');
+        if (rc.decodeBit(this.probs.isRepG0, this.state) === 0) {
+          if (rc.decodeBit(this.probs.isRep0Long, (this.state << 4) + posState) === 0) {
+            // Short rep: a single byte from the last distance
+            this.state = this.state < 7 ? 9 : 11;
+            out[pos] = out[pos - this.reps[0] - 1];
+            pos++;
+            continue;
+          }
+        } else {
+          let distance: number;
+          if (rc.decodeBit(this.probs.isRepG1, this.state) === 0) {
+            distance = this.reps[1];
+          } else {
+            if (rc.decodeBit(this.probs.isRepG2, this.state) === 0) {
+              distance = this.reps[2];
+            } else {
+              distance = this.reps[3];
+              this.reps[3] = this.reps[2];
+            }
+            this.reps[2] = this.reps[1];
+          }
+          this.reps[1] = this.reps[0];
+          this.reps[0] = distance;
+        }
+        len = this.probs.repLen.decode(rc, posState);
+        this.state = this.state < 7 ? 8 : 11;
+      } else {
+        this.reps[3] = this.reps[2];
+        this.reps[2] = this.reps[1];
+        this.reps[1] = this.reps[0];
+        len = this.probs.len.decode(rc, posState);
+        this.state = this.state < 7 ? 7 : 10;
+        this.reps[0] = this.decodeDistance(rc, len);
+      }
+
+      const distance = this.reps[0] + 1;
+      if (distance > pos - dictStart) {
+        throw new Error('Corrupt LZMA data: match distance beyond the dictionary');
+      }
+      const count = Math.min(len + MATCH_MIN_LEN, end - pos);
+      for (let i = 0; i < count; i++, pos++) {
+        out[pos] = out[pos - distance];
+      }
+    }
+
+    output.length = end;
+  }
+
+  private decodeLiteral(rc: RangeDecoder, out: Uint8Array, pos: number, dictStart: number): number {
+    const prevByte = pos > dictStart ? out[pos - 1] : 0;
+    const litState =
+      (((pos - dictStart) & ((1 << this.lp) - 1)) << this.lc) + (prevByte >>> (8 - this.lc));
+    const base = litState * 0x300;
+
+    let symbol = 1;
+    if (this.state >= 7) {
+      // After a match the literal is coded relative to the byte at the last distance
+      let matchByte = out[pos - this.reps[0] - 1];
+      while (symbol < 0x100) {
+        const matchBit = (matchByte >>> 7) & 1;
+        matchByte <<= 1;
+        const bit = rc.decodeBit(this.probs.literals, base + ((1 + matchBit) << 8) + symbol);
+        symbol = (symbol << 1) | bit;
+        if (matchBit !== bit) break;
+      }
+    }
+    while (symbol < 0x100) {
+      symbol = (symbol << 1) | rc.decodeBit(this.probs.literals, base + symbol);
+    }
+    return symbol - 0x100;
+  }
+
+  private decodeDistance(rc: RangeDecoder, len: number): number {
+    const lenState = Math.min(len, 3);
+    const posSlot = rc.bitTree(this.probs.posSlot, lenState << 6, 6);
+    if (posSlot < 4) return posSlot;
+
+    const numDirectBits = (posSlot >>> 1) - 1;
+    const distance = (2 | (posSlot & 1)) * 2 ** numDirectBits;
+    if (posSlot < END_POS_MODEL_INDEX) {
+      return (
+        distance + rc.reverseBitTree(this.probs.posDecoders, distance - posSlot, numDirectBits)
+      );
+    }
+    return (
+      distance +
+      rc.decodeDirectBits(numDirectBits - NUM_ALIGN_BITS) * 2 ** NUM_ALIGN_BITS +
+      rc.reverseBitTree(this.probs.align, 0, NUM_ALIGN_BITS)
+    );
+  }
+}
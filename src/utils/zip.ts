@@ -0,0 +1,160 @@
+const EOCD_SIGNATURE = 0x06054b50;
+const ZIP64_EOCD_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+
+const EOCD_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xffff;
+const LOCAL_HEADER_SIZE = 30;
+const ZIP64_LOCATOR_SIZE = 20;
+const ZIP64_EXTRA_ID = 0x0001;
+
+// 32-bit fields holding this value are continued in the ZIP64 records
+const ZIP64_MARKER = 0xffffffff;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+export interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  size: number;
+  localHeaderOffset: number;
+}
+
+// ZIP64 sizes and offsets are 64-bit; anything a Blob can hold fits in a double
+function getUint64(view: DataView, offset: number): number {
+  return view.getUint32(offset, true) + view.getUint32(offset + 4, true) * 2 ** 32;
+}
+
+/**
+ * List the entries of a ZIP archive (an APK or OTA package) from its central
+ * directory. ZIP64 is supported, since full OTA packages exceed 4 GB.
+ */
+export async function listZipEntries(zip: Blob): Promise<ZipEntry[]> {
+  // The end of central directory record sits at the end, after an optional comment
+  const tailStart = Math.max(0, zip.size - EOCD_SIZE - MAX_COMMENT_SIZE);
+  const tail = new Uint8Array(await zip.slice(tailStart).arrayBuffer());
+  const tailView = new DataView(tail.buffer);
+
+  let eocd = -1;
+  for (let i = tail.length - EOCD_SIZE; i >= 0; i--) {
+    if (tailView.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new Error('Not a ZIP archive');
+  }
+
+  let count = tailView.getUint16(eocd + 10, true);
+  let directorySize = tailView.getUint32(eocd + 12, true);
+  let directoryOffset = tailView.getUint32(eocd + 16, true);
+
+  const locator = eocd - ZIP64_LOCATOR_SIZE;
+  if (locator >= 0 && tailView.getUint32(locator, true) === ZIP64_EOCD_LOCATOR_SIGNATURE) {
+    const recordOffset = getUint64(tailView, locator + 8);
+    const record = new DataView(await zip.slice(recordOffset, recordOffset + 56).arrayBuffer());
+    if (record.getUint32(0, true) !== ZIP64_EOCD_SIGNATURE) {
+      throw new Error('Corrupt ZIP64 end of central directory');
+    }
+    count = getUint64(record, 32);
+    directorySize = getUint64(record, 40);
+    directoryOffset = getUint64(record, 48);
+  }
+
+  const directory = new Uint8Array(
+    await zip.slice(directoryOffset, directoryOffset + directorySize).arrayBuffer(),
+  );
+  const view = new DataView(directory.buffer);
+  const decoder = new TextDecoder();
+
+  const entries: ZipEntry[] = [];
+  let offset = 0;
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_SIGNATURE) {
+      throw new Error('Corrupt ZIP central directory');
+    }
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+
+    const entry: ZipEntry = {
+      name: decoder.decode(directory.subarray(offset + 46, offset + 46 + nameLength)),
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      size: view.getUint32(offset + 24, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+    };
+    readZip64Extra(view, offset + 46 + nameLength, extraLength, entry);
+    entries.push(entry);
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * The ZIP64 extra field holds, in order, whichever of the uncompressed size,
+ * compressed size and local header offset overflowed their 32-bit fields
+ */
+function readZip64Extra(view: DataView, start: number, length: number, entry: ZipEntry): void {
+  let offset = start;
+  while (offset + 4 <= start + length) {
+    const id = view.getUint16(offset, true);
+    const size = view.getUint16(offset + 2, true);
+    if (id === ZIP64_EXTRA_ID) {
+      let field = offset + 4;
+      if (entry.size === ZIP64_MARKER) {
+        entry.size = getUint64(view, field);
+        field += 8;
+      }
+      if (entry.compressedSize === ZIP64_MARKER) {
+        entry.compressedSize = getUint64(view, field);
+        field += 8;
+      }
+      if (entry.localHeaderOffset === ZIP64_MARKER) {
+        entry.localHeaderOffset = getUint64(view, field);
+      }
+      return;
+    }
+    offset += 4 + size;
+  }
+}
+
+/**
+ * Extract one entry. Stored and deflated entries are supported, which covers
+ * everything an APK or OTA package contains. Stored entries come back as a
+ * slice of the archive, so large ones are not read into memory.
+ */
+export async function extractZipEntry(zip: Blob, entry: ZipEntry): Promise<Blob> {
+  // The local header repeats the name and may carry a different extra field
+  const header = new DataView(
+    await zip
+      .slice(entry.localHeaderOffset, entry.localHeaderOffset + LOCAL_HEADER_SIZE)
+      .arrayBuffer(),
+  );
+  if (header.getUint32(0, true) !== LOCAL_HEADER_SIGNATURE) {
+    throw new Error(`Corrupt ZIP entry: ${entry.name}`);
+  }
+  const dataStart =
+    entry.localHeaderOffset +
+    LOCAL_HEADER_SIZE +
+    header.getUint16(26, true) +
+    header.getUint16(28, true);
+  const data = zip.slice(dataStart, dataStart + entry.compressedSize);
+
+  switch (entry.method) {
+    case METHOD_STORED:
+      return data;
+    case METHOD_DEFLATE:
+      return await new Response(
+        data.stream().pipeThrough(new DecompressionStream('deflate-raw')),
+      ).blob();
+    default:
+      throw new Error(`Unsupported compression method ${entry.method} for ${entry.name}`);
+  }
+}